@@ -5,12 +5,18 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import Dashboard from "@/pages/dashboard";
+import ActivityPage from "@/pages/activity";
+import TradingPostPage from "@/pages/trading-post";
+import AchievementsPage from "@/pages/achievements";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/activity" component={ActivityPage} />
+      <Route path="/trading-post" component={TradingPostPage} />
+      <Route path="/achievements" component={AchievementsPage} />
       <Route component={NotFound} />
     </Switch>
   );
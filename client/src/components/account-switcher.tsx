@@ -0,0 +1,71 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Check, ChevronDown, Layers, Plus, Trash2 } from "lucide-react";
+import type { SessionAccount } from "@/hooks/use-accounts";
+
+interface AccountSwitcherProps {
+  accounts: SessionAccount[];
+  activeAccountId: string | null;
+  showAll: boolean;
+  onSelect: (accountId: string) => void;
+  onSelectAll: () => void;
+  onAdd: () => void;
+  onRemove: (accountId: string) => void;
+}
+
+export function AccountSwitcher({ accounts, activeAccountId, showAll, onSelect, onSelectAll, onAdd, onRemove }: AccountSwitcherProps) {
+  const active = accounts.find(a => a.id === activeAccountId);
+  const label = showAll ? "All accounts" : active?.name ?? "No account";
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center space-x-2">
+          <div className="w-8 h-8 bg-gradient-to-br from-gw2-purple to-purple-600 rounded-full"></div>
+          <span className="hidden sm:inline text-sm font-medium text-foreground">{label}</span>
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Accounts</DropdownMenuLabel>
+        {accounts.map(({ id, name }) => (
+          <DropdownMenuItem key={id} onSelect={() => onSelect(id)} className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 min-w-0">
+              {!showAll && id === activeAccountId ? <Check className="h-4 w-4" /> : <span className="w-4" />}
+              <span className="truncate">{name}</span>
+            </div>
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-destructive"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(id);
+              }}
+              aria-label={`Sign out of ${name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </DropdownMenuItem>
+        ))}
+        {accounts.length > 1 && (
+          <DropdownMenuItem onSelect={onSelectAll}>
+            {showAll ? <Check className="mr-2 h-4 w-4" /> : <Layers className="mr-2 h-4 w-4" />}
+            All accounts
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onAdd}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add account
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,105 @@
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ItemTooltip } from "@/components/item-tooltip";
+import { CoinValue } from "@/components/coin-value";
+import { Check, Trophy } from "lucide-react";
+import type { AchievementProgress } from "@/types";
+
+type Reward = AchievementProgress["rewards"][number];
+type Bit = AchievementProgress["bits"][number];
+
+function RewardBadge({ reward }: { reward: Reward }) {
+  switch (reward.type) {
+    case "Item":
+      return reward.id ? <ItemTooltip itemId={reward.id} count={reward.count} size="sm" /> : null;
+    case "Coins":
+      return <Badge variant="outline"><CoinValue copper={reward.count ?? 0} /></Badge>;
+    case "Mastery":
+      return <Badge variant="outline">{reward.region} Mastery</Badge>;
+    case "Title":
+      return <Badge variant="outline">Title</Badge>;
+  }
+}
+
+function BitRow({ bit }: { bit: Bit }) {
+  return (
+    <li className={`flex items-center space-x-2 text-xs ${bit.done ? "text-muted-foreground line-through" : ""}`}>
+      {bit.done ? <Check className="h-3 w-3 text-green-500 shrink-0" /> : <span className="w-3 shrink-0" />}
+      {bit.type === "Item" && bit.id ? (
+        <ItemTooltip itemId={bit.id} size="sm" />
+      ) : (
+        <span>{bit.text || `${bit.type} ${bit.id ?? ""}`.trim()}</span>
+      )}
+    </li>
+  );
+}
+
+interface AchievementCardProps {
+  achievement: AchievementProgress;
+  // Compact cards leave out description, bits and rewards
+  compact?: boolean;
+}
+
+export function AchievementCard({ achievement, compact }: AchievementCardProps) {
+  const percent = achievement.max > 0 ? (achievement.current / achievement.max) * 100 : 0;
+
+  return (
+    <div className={`p-4 rounded-lg bg-muted space-y-3 ${achievement.done ? "opacity-70" : ""}`}>
+      <div className="flex items-start space-x-3">
+        {achievement.icon ? (
+          <img src={achievement.icon} alt="" className="w-10 h-10 rounded" />
+        ) : (
+          <div className="w-10 h-10 rounded bg-gw2-gold/20 flex items-center justify-center">
+            <Trophy className="h-5 w-5 text-gw2-gold" />
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-semibold truncate">{achievement.name}</h3>
+            <span className="text-sm font-medium shrink-0">
+              {achievement.earnedPoints}/{achievement.points} AP
+            </span>
+          </div>
+          {!compact && achievement.description && (
+            <p className="text-xs text-muted-foreground">{achievement.description}</p>
+          )}
+          <p className="text-xs text-muted-foreground">{achievement.requirement}</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Progress value={percent} className="h-2" />
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {achievement.current.toLocaleString()} / {achievement.max.toLocaleString()}
+            {achievement.repeated > 0 && ` · repeated ${achievement.repeated}×`}
+          </span>
+          {achievement.done && <span className="text-green-500">Completed</span>}
+        </div>
+      </div>
+
+      {achievement.tiers.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {achievement.tiers.map((tier) => (
+            <Badge key={tier.count} variant={tier.done ? "default" : "outline"} className="text-xs">
+              {tier.count.toLocaleString()} · {tier.points} AP
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {!compact && achievement.bits.length > 0 && (
+        <ul className="grid sm:grid-cols-2 gap-1">
+          {achievement.bits.map((bit, index) => <BitRow key={index} bit={bit} />)}
+        </ul>
+      )}
+
+      {!compact && achievement.rewards.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Rewards:</span>
+          {achievement.rewards.map((reward, index) => <RewardBadge key={index} reward={reward} />)}
+        </div>
+      )}
+    </div>
+  );
+}
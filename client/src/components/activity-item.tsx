@@ -0,0 +1,55 @@
+import { Coins, Package, Plus, Trophy, TrendingUp, UserPlus, Wallet } from "lucide-react";
+import { CoinValue } from "@/components/coin-value";
+import type { Activity } from "@shared/schema";
+
+export const ACTIVITY_TYPE_LABELS: Record<string, string> = {
+  gold: "Gold",
+  currency: "Currencies",
+  material: "Materials",
+  level: "Level Ups",
+  character: "New Characters",
+  achievement: "Achievements",
+};
+
+const ACTIVITY_ICONS: Record<string, React.ReactNode> = {
+  gold: <Coins className="text-gw2-gold h-5 w-5" />,
+  currency: <Wallet className="text-blue-600 dark:text-blue-400 h-5 w-5" />,
+  material: <Package className="text-orange-600 dark:text-orange-400 h-5 w-5" />,
+  level: <TrendingUp className="text-purple-600 dark:text-purple-400 h-5 w-5" />,
+  character: <UserPlus className="text-cyan-600 dark:text-cyan-400 h-5 w-5" />,
+  achievement: <Trophy className="text-green-600 dark:text-green-400 h-5 w-5" />,
+};
+
+interface ActivityItemProps {
+  activity: Activity;
+}
+
+export function ActivityItem({ activity }: ActivityItemProps) {
+  return (
+    <div className="flex items-center space-x-4 p-3 bg-muted rounded-lg">
+      <div className="w-10 h-10 bg-background rounded-lg flex items-center justify-center flex-shrink-0">
+        {ACTIVITY_ICONS[activity.type] || ACTIVITY_ICONS.achievement}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">
+          {activity.type === "gold" && activity.amount !== null ? (
+            <>
+              {activity.amount > 0 ? "Gained" : "Spent"} <CoinValue copper={Math.abs(activity.amount)} />
+            </>
+          ) : (
+            activity.description
+          )}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {activity.timestamp ? new Date(activity.timestamp).toLocaleString() : "Recently"}
+        </p>
+      </div>
+      {activity.reward && (
+        <div className="flex items-center text-gw2-gold">
+          <Plus className="h-3 w-3 mr-1" />
+          <span className="text-sm font-medium">{activity.reward}</span>
+        </div>
+      )}
+    </div>
+  );
+}
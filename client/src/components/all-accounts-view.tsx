@@ -0,0 +1,113 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CurrencyIcon } from "@/components/currency-icon";
+import { CoinValue } from "@/components/coin-value";
+import { MaterialsTab } from "@/components/materials-tab";
+import type { AccountWithDetails, Material } from "@shared/schema";
+
+interface AllAccountsViewProps {
+  accounts: AccountWithDetails[];
+  onAccountSelect: (accountId: string) => void;
+}
+
+const gold = (account: AccountWithDetails) => account.wallet.find(w => w.currencyId === 1)?.value ?? 0;
+
+// Sums stacks of the same material across accounts
+function mergeMaterials(accounts: AccountWithDetails[]): Material[] {
+  const merged = new Map<number, Material>();
+  accounts.forEach(account => {
+    account.materials.forEach(material => {
+      const existing = merged.get(material.itemId);
+      if (existing) {
+        existing.count += material.count;
+      } else {
+        merged.set(material.itemId, { ...material, id: String(material.itemId), accountId: null });
+      }
+    });
+  });
+  return Array.from(merged.values());
+}
+
+export function AllAccountsView({ accounts, onAccountSelect }: AllAccountsViewProps) {
+  const totalGold = accounts.reduce((sum, account) => sum + gold(account), 0);
+  const characters = accounts.flatMap(account => account.characters.map(character => ({ account, character })));
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>All Accounts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="flex items-center space-x-3">
+              <CurrencyIcon currencyId={1} className="w-10 h-10" />
+              <div>
+                <p className="text-sm text-muted-foreground">Total Gold</p>
+                <p className="text-xl font-bold"><CoinValue copper={totalGold} /></p>
+              </div>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Accounts</p>
+              <p className="text-2xl font-bold">{accounts.length}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Characters</p>
+              <p className="text-2xl font-bold">{characters.length}</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {accounts.map((account) => (
+              <div
+                key={account.id}
+                onClick={() => onAccountSelect(account.id)}
+                className="flex justify-between items-center p-3 bg-muted rounded-lg cursor-pointer hover:bg-accent"
+              >
+                <span className="text-sm font-medium">{account.name}</span>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="outline">{account.characters.length} characters</Badge>
+                  <CoinValue copper={gold(account)} className="font-bold" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <Tabs defaultValue="characters" className="w-full">
+          <CardHeader>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="characters">Characters</TabsTrigger>
+              <TabsTrigger value="materials">Materials</TabsTrigger>
+            </TabsList>
+          </CardHeader>
+          <CardContent>
+            <TabsContent value="characters" className="mt-0">
+              <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {characters.map(({ account, character }) => (
+                  <div
+                    key={`${account.id}:${character.name}`}
+                    onClick={() => onAccountSelect(account.id)}
+                    className="p-4 rounded-lg bg-muted cursor-pointer hover:bg-accent"
+                  >
+                    <h3 className="font-semibold">{character.name}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Level {character.level} {character.eliteSpecialization?.name ?? character.profession}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{account.name}</p>
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+            <TabsContent value="materials" className="mt-0">
+              <MaterialsTab materials={mergeMaterials(accounts)} showCapacity={false} />
+            </TabsContent>
+          </CardContent>
+        </Tabs>
+      </Card>
+    </div>
+  );
+}
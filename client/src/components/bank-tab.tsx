@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { GW2ItemIcon } from "@/components/gw2-item-icon";
+import { ChevronDown } from "lucide-react";
+import type { BankItem } from "@shared/schema";
+
+const SLOTS_PER_TAB = 30;
+
+interface BankTabProps {
+  bankItems: BankItem[];
+  // Null until the account has been synced with this field
+  bankSlots: number | null;
+  highlightedSlots: Set<number>;
+  searching: boolean;
+}
+
+// Every bank slot, grouped into the 30-slot tabs the game shows
+export function BankTab({ bankItems, bankSlots, highlightedSlots, searching }: BankTabProps) {
+  const [collapsed, setCollapsed] = useState<Record<number, boolean>>({});
+
+  const itemsBySlot = new Map(bankItems.map(item => [item.slot ?? 0, item]));
+  const highestSlot = bankItems.reduce((max, item) => Math.max(max, item.slot ?? 0), -1);
+  const slotCount = bankSlots ?? Math.max(SLOTS_PER_TAB, Math.ceil((highestSlot + 1) / SLOTS_PER_TAB) * SLOTS_PER_TAB);
+  const tabCount = Math.ceil(slotCount / SLOTS_PER_TAB);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Bank Storage</h3>
+          <p className="text-sm text-muted-foreground">
+            {bankItems.length}/{slotCount} slots used
+          </p>
+        </div>
+        <Badge variant="outline">
+          {tabCount} {tabCount === 1 ? "tab" : "tabs"}
+        </Badge>
+      </div>
+
+      {Array.from({ length: tabCount }, (_, tab) => {
+        const slots = Array.from({ length: SLOTS_PER_TAB }, (_, i) => tab * SLOTS_PER_TAB + i);
+        const used = slots.filter(slot => itemsBySlot.has(slot)).length;
+        const open = !collapsed[tab];
+
+        return (
+          <Collapsible
+            key={tab}
+            open={open}
+            onOpenChange={(value) => setCollapsed(current => ({ ...current, [tab]: !value }))}
+          >
+            <CollapsibleTrigger className="w-full flex items-center justify-between py-2 text-sm font-medium">
+              <span>Tab {tab + 1}</span>
+              <span className="flex items-center gap-2 text-muted-foreground">
+                {used}/{SLOTS_PER_TAB}
+                <ChevronDown className={`h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+              </span>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <div className="grid grid-cols-10 gap-2">
+                {slots.map((slot) => {
+                  const item = itemsBySlot.get(slot);
+                  const highlight = searching
+                    ? highlightedSlots.has(slot) ? "ring-2 ring-gw2-gold" : "opacity-40"
+                    : "";
+                  return (
+                    <div
+                      key={slot}
+                      className={`aspect-square rounded transition-all cursor-pointer ${highlight}`}
+                    >
+                      {item ? (
+                        <GW2ItemIcon
+                          itemId={item.itemId ?? undefined}
+                          count={item.count ?? undefined}
+                          size="md"
+                          className="w-full h-full"
+                        />
+                      ) : (
+                        <div className="w-full h-full bg-muted rounded border-2 border-border" />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { BuildIcon, ResolvedBuildTab, ResolvedSkillBar, ResolvedSpecialization } from "@/types";
+
+function IconWithTooltip({ entry, className }: { entry: BuildIcon | null; className: string }) {
+  if (!entry) {
+    return <div className={`${className} bg-muted rounded border-2 border-dashed border-border`} />;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger>
+        <img src={entry.icon} alt={entry.name} className={`${className} rounded`} loading="lazy" />
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs bg-black/80 border-border text-white">
+        <p className="font-semibold">{entry.name}</p>
+        {entry.description && <p className="text-sm text-gray-400">{entry.description}</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+// Each tier's three major traits stacked, with the chosen one lit up
+function TraitLine({ spec }: { spec: ResolvedSpecialization }) {
+  if (spec.majorTraits.every(tier => tier.length === 0)) {
+    return (
+      <div className="flex items-center gap-2">
+        {spec.traits.map((trait, i) => <IconWithTooltip key={i} entry={trait} className="w-9 h-9" />)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      {spec.majorTraits.map((options, tier) => (
+        <div key={tier} className="flex flex-col gap-1">
+          {options.map((option) => {
+            const chosen = spec.traits[tier]?.id === option.id;
+            return (
+              <div key={option.id} className={chosen ? "ring-2 ring-gw2-gold rounded" : "opacity-40 grayscale"}>
+                <IconWithTooltip entry={option} className="w-8 h-8" />
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SkillBar({ title, bar }: { title: string; bar: ResolvedSkillBar }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-muted-foreground">{title}</h4>
+      <div className="flex items-center gap-2">
+        <IconWithTooltip entry={bar.heal} className="w-10 h-10" />
+        {bar.utilities.map((skill, index) => <IconWithTooltip key={index} entry={skill} className="w-10 h-10" />)}
+        <IconWithTooltip entry={bar.elite} className="w-10 h-10" />
+      </div>
+    </div>
+  );
+}
+
+// Specialization lines with their major traits, and the land and water skill bars
+export function BuildPanel({ build }: { build: ResolvedBuildTab }) {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <h3 className="font-semibold">{build.name || `Build ${build.tab}`}</h3>
+        {build.isActive && <Badge className="bg-gw2-gold text-white">Active</Badge>}
+      </div>
+
+      <div className="space-y-3">
+        {build.specializations.map((spec, index) =>
+          spec ? (
+            <div
+              key={index}
+              className="flex items-center gap-4 p-3 rounded-lg bg-muted bg-cover bg-center"
+              style={{ backgroundImage: `linear-gradient(to right, var(--muted) 40%, transparent), url(${spec.background})` }}
+            >
+              <IconWithTooltip entry={spec} className="w-12 h-12" />
+              <div className="w-32 min-w-0">
+                <p className="text-sm font-medium truncate">{spec.name}</p>
+                {spec.elite && <Badge variant="secondary" className="text-xs">Elite</Badge>}
+              </div>
+              <TraitLine spec={spec} />
+            </div>
+          ) : (
+            <div key={index} className="p-3 rounded-lg border border-dashed text-sm text-muted-foreground">
+              No specialization selected
+            </div>
+          )
+        )}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <SkillBar title="Skills" bar={build.skills} />
+        <SkillBar title="Underwater skills" bar={build.aquaticSkills} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { GW2ItemIcon } from "@/components/gw2-item-icon";
+import { ItemTooltip } from "@/components/item-tooltip";
+import { useItemDetails } from "@/hooks/use-item-details";
+import { EyeOff, Lock, Vault } from "lucide-react";
+import type { GW2Bag, GW2Item } from "@/types";
+
+// Invisible bags and safe boxes both keep their contents away from merchants and inventory sorting.
+// The API flags them the same way, so safe boxes are told apart by name.
+const isProtected = (bagItem?: GW2Item) => bagItem?.details?.no_sell_or_sort === true;
+const isSafeBox = (bagItem?: GW2Item) => isProtected(bagItem) && /safe box/i.test(bagItem?.name ?? "");
+const isInvisible = (bagItem?: GW2Item) => isProtected(bagItem) && !isSafeBox(bagItem);
+
+function BagView({ bag, highlightedItemIds }: { bag: GW2Bag; highlightedItemIds?: Set<number> }) {
+  const { data: bagItem } = useItemDetails(bag.id);
+  const used = bag.inventory.filter(Boolean).length;
+  const invisible = isInvisible(bagItem);
+  const safeBox = isSafeBox(bagItem);
+  const searching = !!highlightedItemIds && highlightedItemIds.size > 0;
+
+  return (
+    <div className="border rounded-lg p-4 bg-gradient-to-r from-muted/30 to-muted/10">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2 min-w-0">
+          <GW2ItemIcon itemId={bag.id} iconUrl={bagItem?.icon} rarity={bagItem?.rarity} size="sm" />
+          <span className="text-sm font-medium truncate">{bagItem?.name ?? "Bag"}</span>
+          {invisible && (
+            <Tooltip>
+              <TooltipTrigger>
+                <Badge variant="secondary" className="text-xs">
+                  <EyeOff className="mr-1 h-3 w-3" />
+                  Invisible
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>Contents aren't offered to merchants or moved by sorting</TooltipContent>
+            </Tooltip>
+          )}
+          {safeBox && (
+            <Tooltip>
+              <TooltipTrigger>
+                <Badge variant="secondary" className="text-xs">
+                  <Vault className="mr-1 h-3 w-3" />
+                  Safe box
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>Safe box: contents aren't offered to merchants or moved by sorting</TooltipContent>
+            </Tooltip>
+          )}
+        </div>
+        <Badge variant="outline" className="text-xs shrink-0">
+          {used}/{bag.size} slots
+        </Badge>
+      </div>
+      <div className="grid grid-cols-10 gap-2">
+        {bag.inventory.map((item, slotIndex) => (
+          <div
+            key={slotIndex}
+            className={`aspect-square rounded ${
+              searching ? item && highlightedItemIds.has(item.id) ? "ring-2 ring-gw2-gold" : "opacity-40" : ""
+            }`}
+          >
+            {item ? (
+              <ItemTooltip itemId={item.id} count={item.count} size="md" />
+            ) : (
+              <div className="w-full h-full bg-muted rounded border-2 border-border" />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function LockedBagSlot({ index }: { index: number }) {
+  return (
+    <div className="border border-dashed rounded-lg p-4 flex items-center space-x-2 text-muted-foreground">
+      <Lock className="h-4 w-4" />
+      <span className="text-sm">Bag slot {index + 1} is empty</span>
+    </div>
+  );
+}
+
+interface CharacterBagsProps {
+  bags?: (GW2Bag | null)[];
+  isLoading: boolean;
+  highlightedItemIds?: Set<number>;
+}
+
+export function CharacterBags({ bags, isLoading, highlightedItemIds }: CharacterBagsProps) {
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-32" />)}
+      </div>
+    );
+  }
+
+  if (!bags) {
+    return (
+      <div className="text-center p-4 bg-muted/50 rounded-lg">
+        <p className="text-sm text-muted-foreground">
+          Character inventory requires an API key with the inventories and characters permissions
+        </p>
+      </div>
+    );
+  }
+
+  const equipped = bags.filter((bag): bag is GW2Bag => bag !== null);
+  const totalSlots = equipped.reduce((sum, bag) => sum + bag.size, 0);
+  const freeSlots = equipped.reduce((sum, bag) => sum + bag.inventory.filter(item => !item).length, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {equipped.length}/{bags.length} bag slots filled
+        </span>
+        <Badge variant={freeSlots === 0 ? "destructive" : "secondary"}>
+          {freeSlots}/{totalSlots} free
+        </Badge>
+      </div>
+      {bags.map((bag, index) =>
+        bag ? (
+          <BagView key={index} bag={bag} highlightedItemIds={highlightedItemIds} />
+        ) : (
+          <LockedBagSlot key={index} index={index} />
+        )
+      )}
+    </div>
+  );
+}
@@ -3,33 +3,76 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Shield, Sword, Heart, Zap, Clock, Calendar, Package, Search, Eye, Crown, Moon, Plus, AlertTriangle } from "lucide-react";
+import { CharacterBags } from "@/components/character-bags";
+import { EquipmentPanel } from "@/components/equipment-panel";
+import { BuildPanel } from "@/components/build-panel";
+import { TemplateTabSelect } from "@/components/template-tab-select";
 import { Skeleton } from "@/components/ui/loading-skeleton";
-import { Shield, Sword, Heart, Zap, Clock, Calendar, Package, Search, Eye, Crown, Moon, Plus } from "lucide-react";
-import { ItemTooltip } from "@/components/item-tooltip";
+import { useEffect, useState } from "react";
+import { useProfessions } from "@/hooks/use-professions";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import type { Character } from "@shared/schema";
+import type { CharacterDetails } from "@/types";
+
+// Shown in place of a section whose request failed, so it isn't mistaken for a missing permission
+function SectionError({ what, message }: { what: string; message: string }) {
+  return (
+    <div className="flex items-center justify-center space-x-2 p-4 bg-muted/50 rounded-lg text-sm text-muted-foreground">
+      <AlertTriangle className="h-4 w-4 text-yellow-500 shrink-0" />
+      <span>Couldn't load {what}: {message}</span>
+    </div>
+  );
+}
 
 interface CharacterModalProps {
+  accountId: string | null;
   character: Character | null;
   isOpen: boolean;
   onClose: () => void;
+  // Item ids to highlight in the bags, e.g. from the item search
+  highlightedItemIds?: Set<number>;
 }
 
-export function CharacterModal({ character, isOpen, onClose }: CharacterModalProps) {
-  const { data: charDetails, isLoading } = useQuery({
-    queryKey: ["character", character?.name],
+export function CharacterModal({ accountId, character, isOpen, onClose, highlightedItemIds }: CharacterModalProps) {
+  const { professionIcon } = useProfessions();
+
+  // Null follows whichever template tab is active in game
+  const [buildTab, setBuildTab] = useState<number | null>(null);
+  const [equipmentTab, setEquipmentTab] = useState<number | null>(null);
+
+  useEffect(() => {
+    setBuildTab(null);
+    setEquipmentTab(null);
+  }, [character?.name]);
+
+  const { data: charDetails, isLoading } = useQuery<CharacterDetails | null>({
+    queryKey: ["/api/accounts", accountId, "characters", character?.name],
     queryFn: async () => {
       if (!character) return null;
-      const response = await apiRequest("GET", `/api/characters/${character.name}`);
+      const response = await apiRequest("GET", `/api/accounts/${accountId}/characters/${encodeURIComponent(character.name)}`);
       return response.json();
     },
-    enabled: isOpen && !!character,
+    enabled: isOpen && !!character && !!accountId,
     staleTime: 1000 * 60 * 5, // Cache for 5 minutes
   });
 
   if (!character) return null;
 
+  const errors = charDetails?.errors ?? {};
+
+  const pickTab = <T extends { tab: number; isActive: boolean }>(tabs: T[], selected: number | null) =>
+    tabs.find(tab => tab.tab === selected) ?? tabs.find(tab => tab.isActive) ?? tabs[0];
+  const selectedBuild = pickTab(charDetails?.buildTabs ?? [], buildTab);
+  const selectedEquipment = pickTab(charDetails?.equipmentTabs ?? [], equipmentTab);
+
+  // Live build data wins over the elite spec stored at the last sync
+  const activeBuild = charDetails?.buildTabs?.find(tab => tab.isActive);
+  const eliteSpec = activeBuild
+    ? activeBuild.specializations.find(spec => spec?.elite) ?? null
+    : character.eliteSpecialization;
+
   const getProfessionColor = (profession: string) => {
     // Official GW2 profession colors matching the game UI
     const colors: Record<string, string> = {
@@ -46,22 +89,6 @@ export function CharacterModal({ character, isOpen, onClose }: CharacterModalPro
     return colors[profession] || "from-gray-500 to-gray-700";
   };
 
-  const getProfessionIcon = (profession: string) => {
-    // Official GW2 profession icon URLs from the render service
-    const iconUrls: Record<string, string> = {
-      Guardian: "https://render.guildwars2.com/file/943538394A94A491C8632FBEF6203C2013443555/102478.png",
-      Warrior: "https://render.guildwars2.com/file/4926CE43F614A7D9A83AB9D6D25DF57B61BF4DE5/102451.png", 
-      Engineer: "https://render.guildwars2.com/file/502050C64A7EC7E3C9A4FB0B1F0D9E9F2CF2D73B/102456.png",
-      Ranger: "https://render.guildwars2.com/file/298F3F67EA2D6BFAD3D516F6F5E09EFBA8B66E87/102473.png",
-      Thief: "https://render.guildwars2.com/file/41CF590C6E5DC8F10EDA0D4C11309D1DD25E55E8/102447.png",
-      Elementalist: "https://render.guildwars2.com/file/A7B0C1F982026C7648C32FA50CA8CB4B1EDC64F3/102461.png",
-      Mesmer: "https://render.guildwars2.com/file/E54E7E5C2987B5BA17A5F5AACBB421DFE3F57AC0/102465.png",
-      Necromancer: "https://render.guildwars2.com/file/1F4BAB7CB6299113FE6A6B462C8273B84F61FA67/102469.png",
-      Revenant: "https://render.guildwars2.com/file/0F2FC4F020F7EE9F6E6B80B9CD7C2068FA2CFBF7/103822.png"
-    };
-    return iconUrls[profession];
-  };
-
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -70,11 +97,11 @@ export function CharacterModal({ character, isOpen, onClose }: CharacterModalPro
             <div className={`w-16 h-16 bg-gradient-to-br ${getProfessionColor(character.profession || "")} rounded-lg flex items-center justify-center relative overflow-hidden shadow-lg`}>
               <div className="absolute inset-0 bg-black/30"></div>
               {(() => {
-                const iconUrl = getProfessionIcon(character.profession || "");
+                const iconUrl = eliteSpec?.icon ?? professionIcon(character.profession);
                 return iconUrl ? (
                   <img 
                     src={iconUrl} 
-                    alt={`${character.profession} icon`}
+                    alt={`${eliteSpec?.name ?? character.profession} icon`}
                     className="h-10 w-10 relative z-10 drop-shadow-md filter brightness-110"
                   />
                 ) : (
@@ -88,6 +115,7 @@ export function CharacterModal({ character, isOpen, onClose }: CharacterModalPro
                 Character details for {character.name}, a level {character.level} {character.profession}
               </DialogDescription>
               <div className="flex items-center space-x-2 mt-2">
+                {eliteSpec && <Badge className="bg-gw2-gold/80 text-white">{eliteSpec.name}</Badge>}
                 <Badge variant="secondary">{character.profession}</Badge>
                 <Badge variant="outline">{character.race} {character.gender}</Badge>
                 <Badge className="bg-gw2-gold text-white">Level {character.level}</Badge>
@@ -97,8 +125,9 @@ export function CharacterModal({ character, isOpen, onClose }: CharacterModalPro
         </DialogHeader>
 
         <Tabs defaultValue="overview" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="build">Build</TabsTrigger>
             <TabsTrigger value="equipment">Equipment</TabsTrigger>
             <TabsTrigger value="bags">Bags</TabsTrigger>
           </TabsList>
@@ -169,27 +198,64 @@ export function CharacterModal({ character, isOpen, onClose }: CharacterModalPro
           <TabsContent value="equipment" className="space-y-6 mt-6">
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Shield className="mr-2 h-4 w-4" />
-                  Equipment
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center">
+                    <Shield className="mr-2 h-4 w-4" />
+                    Equipment
+                  </span>
+                  {selectedEquipment && (
+                    <TemplateTabSelect
+                      tabs={charDetails?.equipmentTabs ?? []}
+                      value={selectedEquipment.tab}
+                      onChange={setEquipmentTab}
+                    />
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!selectedEquipment && errors.equipment ? (
+                  <SectionError what="equipment" message={errors.equipment} />
+                ) : (
+                  <EquipmentPanel
+                    equipment={selectedEquipment?.equipment ?? charDetails?.equipment ?? undefined}
+                    isLoading={isLoading}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="build" className="space-y-6 mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center">
+                    <Sword className="mr-2 h-4 w-4" />
+                    Build
+                  </span>
+                  {selectedBuild && (
+                    <TemplateTabSelect
+                      tabs={charDetails?.buildTabs ?? []}
+                      value={selectedBuild.tab}
+                      onChange={setBuildTab}
+                    />
+                  )}
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-4 gap-4 mb-6">
-                  {isLoading
-                    ? Array.from({ length: 18 }).map((_, i) => <Skeleton key={i} className="w-16 h-16" />)
-                    : charDetails?.equipment.map((item: any) => (
-                        <div key={item.id} className="flex flex-col items-center space-y-2">
-                          <ItemTooltip itemId={item.id} size="lg" />
-                          <span className="text-xs text-center text-muted-foreground">{item.slot}</span>
-                        </div>
-                      ))}
-                </div>
-                <div className="text-center p-4 bg-muted/50 rounded-lg">
-                  <p className="text-sm text-muted-foreground">
-                    Equipment details require character API endpoint with gear inventory permission
-                  </p>
-                </div>
+                {isLoading ? (
+                  <Skeleton className="h-64" />
+                ) : selectedBuild ? (
+                  <BuildPanel build={selectedBuild} />
+                ) : errors.buildTabs ? (
+                  <SectionError what="build templates" message={errors.buildTabs} />
+                ) : (
+                  <div className="text-center p-4 bg-muted/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">
+                      Build templates require an API key with the builds and characters permissions
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -203,39 +269,15 @@ export function CharacterModal({ character, isOpen, onClose }: CharacterModalPro
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {/* Character bags */}
-                  {Array.from({ length: 5 }).map((_, bagIndex) => (
-                    <div key={bagIndex} className="border rounded-lg p-4 bg-gradient-to-r from-muted/30 to-muted/10">
-                      <div className="flex items-center justify-between mb-3">
-                        <div className="text-sm font-medium">
-                          {bagIndex === 0 ? "Starting Bag" : `Bag ${bagIndex}`}
-                        </div>
-                        <Badge variant="outline" className="text-xs">
-                          {bagIndex === 0 ? "4 slots" : "20 slots"}
-                        </Badge>
-                      </div>
-                      <div className="grid grid-cols-10 gap-2">
-                        {isLoading
-                          ? Array.from({ length: 20 }).map((_, i) => <Skeleton key={i} className="w-12 h-12" />)
-                          : charDetails?.inventory[bagIndex]?.slots.map((item: any, slotIndex: number) => (
-                              <div key={slotIndex} className="aspect-square">
-                                {item ? (
-                                  <ItemTooltip itemId={item.id} count={item.count} size="md" />
-                                ) : (
-                                  <div className="w-full h-full bg-muted rounded border-2 border-border" />
-                                )}
-                              </div>
-                            ))}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-                <div className="text-center p-4 bg-muted/50 rounded-lg mt-4">
-                  <p className="text-sm text-muted-foreground">
-                    Character inventory requires individual character API calls with inventory permission
-                  </p>
-                </div>
+                {errors.inventory ? (
+                  <SectionError what="inventory" message={errors.inventory} />
+                ) : (
+                  <CharacterBags
+                    bags={charDetails?.inventory?.bags}
+                    isLoading={isLoading}
+                    highlightedItemIds={highlightedItemIds}
+                  />
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -0,0 +1,40 @@
+import { cn } from "@/lib/utils";
+import { coinParts, coinSign, formatCoins, type CoinFormatOptions, type CoinPart } from "@shared/coins";
+
+const COIN_STYLES: Record<CoinPart["unit"], string> = {
+  gold: "bg-gradient-to-br from-yellow-300 to-yellow-600 border-yellow-700",
+  silver: "bg-gradient-to-br from-gray-200 to-gray-400 border-gray-500",
+  copper: "bg-gradient-to-br from-orange-400 to-orange-700 border-orange-800",
+};
+
+interface CoinValueProps extends CoinFormatOptions {
+  copper: number;
+  // Green for gains and red for losses; only applies to signed values
+  colored?: boolean;
+  className?: string;
+}
+
+// A copper amount as gold/silver/copper with coin icons, like the in-game wallet
+export function CoinValue({ copper, signed, compact, colored = signed, className }: CoinValueProps) {
+  const sign = coinSign(copper, { signed });
+  const tone = colored && copper !== 0 ? (copper > 0 ? "text-green-500" : "text-destructive") : "";
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 whitespace-nowrap tabular-nums", tone, className)}
+      title={compact ? formatCoins(copper, { signed }) : undefined}
+    >
+      {sign && <span>{sign}</span>}
+      {coinParts(copper, { compact }).map(({ unit, amount }) => (
+        <span key={unit} className="inline-flex items-center gap-0.5">
+          {amount.toLocaleString()}
+          <span
+            className={cn("inline-block w-[0.8em] h-[0.8em] rounded-full border", COIN_STYLES[unit])}
+            role="img"
+            aria-label={unit}
+          />
+        </span>
+      ))}
+    </span>
+  );
+}
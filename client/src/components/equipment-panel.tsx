@@ -0,0 +1,174 @@
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { GW2ItemIcon } from "@/components/gw2-item-icon";
+import { RARITY_COLORS } from "@/components/item-tooltip";
+import type { ResolvedEquipment } from "@/types";
+
+// Slot groups in the order the hero panel shows them
+const ARMOR_SLOTS = ["Helm", "Shoulders", "Coat", "Gloves", "Leggings", "Boots"];
+const TRINKET_SLOTS = ["Backpack", "Accessory1", "Accessory2", "Amulet", "Ring1", "Ring2"];
+const WEAPON_SETS = [
+  { name: "Set A", slots: ["WeaponA1", "WeaponA2"] },
+  { name: "Set B", slots: ["WeaponB1", "WeaponB2"] },
+];
+const AQUATIC_SLOTS = ["HelmAquatic", "WeaponAquaticA", "WeaponAquaticB"];
+const GATHERING_SLOTS = ["Sickle", "Axe", "Pick"];
+
+const SLOT_LABELS: Record<string, string> = {
+  Accessory1: "Accessory",
+  Accessory2: "Accessory",
+  Ring1: "Ring",
+  Ring2: "Ring",
+  WeaponA1: "Main hand",
+  WeaponA2: "Off hand",
+  WeaponB1: "Main hand",
+  WeaponB2: "Off hand",
+  HelmAquatic: "Breather",
+  WeaponAquaticA: "Aquatic A",
+  WeaponAquaticB: "Aquatic B",
+  Sickle: "Harvesting",
+  Axe: "Logging",
+  Pick: "Mining",
+};
+
+const ATTRIBUTE_LABELS: Record<string, string> = {
+  CritDamage: "Ferocity",
+  ConditionDamage: "Condition Damage",
+  BoonDuration: "Concentration",
+  ConditionDuration: "Expertise",
+  Healing: "Healing Power",
+  AgonyResistance: "Agony Resistance",
+};
+
+function bindingLabel(equipment: ResolvedEquipment) {
+  if (equipment.binding === "Character") return `Soulbound to ${equipment.boundTo ?? "character"}`;
+  if (equipment.binding === "Account") return "Account Bound";
+  return null;
+}
+
+function EquipmentTooltipBody({ equipment }: { equipment: ResolvedEquipment }) {
+  const { item, skin, stats, upgrades, infusions, dyes } = equipment;
+  const binding = bindingLabel(equipment);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className={`font-semibold ${RARITY_COLORS[item.rarity] || "text-white"}`}>{item.name}</p>
+      {skin && <p className="text-gray-400">Skin: {skin.name}</p>}
+      {stats && (
+        <div>
+          <p className="font-medium">{stats.name}</p>
+          {Object.entries(stats.attributes).map(([attribute, value]) => (
+            <p key={attribute} className="text-green-400">+{value} {ATTRIBUTE_LABELS[attribute] ?? attribute}</p>
+          ))}
+        </div>
+      )}
+      {[...upgrades, ...infusions].map((upgrade, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <GW2ItemIcon iconUrl={upgrade.icon} rarity={upgrade.rarity} size="sm" />
+          <span className={RARITY_COLORS[upgrade.rarity] || "text-white"}>{upgrade.name}</span>
+        </div>
+      ))}
+      {dyes.some(Boolean) && (
+        <div className="flex items-center gap-1">
+          {dyes.map((dye, index) => (
+            <span
+              key={index}
+              title={dye?.name ?? "Undyed"}
+              className="w-4 h-4 rounded-sm border border-white/40"
+              style={dye ? { backgroundColor: `rgb(${dye.rgb.join(",")})` } : undefined}
+            />
+          ))}
+        </div>
+      )}
+      {binding && <p className="text-gray-400">{binding}</p>}
+    </div>
+  );
+}
+
+function EquipmentSlot({ slot, equipment }: { slot: string; equipment?: ResolvedEquipment }) {
+  const label = SLOT_LABELS[slot] ?? slot;
+
+  if (!equipment) {
+    return (
+      <div className="flex items-center space-x-2">
+        <div className="w-12 h-12 bg-muted rounded border-2 border-dashed border-border" />
+        <span className="text-xs text-muted-foreground">{label}</span>
+      </div>
+    );
+  }
+
+  const icon = equipment.skin?.icon || equipment.item.icon;
+
+  return (
+    <div className="flex items-center space-x-2 min-w-0">
+      <Tooltip>
+        <TooltipTrigger>
+          <GW2ItemIcon iconUrl={icon} rarity={equipment.item.rarity} size="md" />
+        </TooltipTrigger>
+        <TooltipContent side="right" className="max-w-xs bg-black/80 border-border text-white">
+          <EquipmentTooltipBody equipment={equipment} />
+        </TooltipContent>
+      </Tooltip>
+      <div className="min-w-0">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className="text-xs truncate">{equipment.stats?.name ?? equipment.item.name}</p>
+      </div>
+    </div>
+  );
+}
+
+function SlotGroup({ title, slots, bySlot }: { title: string; slots: string[]; bySlot: Map<string, ResolvedEquipment> }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-muted-foreground">{title}</h4>
+      {slots.map(slot => <EquipmentSlot key={slot} slot={slot} equipment={bySlot.get(slot)} />)}
+    </div>
+  );
+}
+
+interface EquipmentPanelProps {
+  equipment?: ResolvedEquipment[];
+  isLoading: boolean;
+}
+
+// Equipped gear laid out like the in-game hero panel
+export function EquipmentPanel({ equipment, isLoading }: EquipmentPanelProps) {
+  if (isLoading) {
+    return (
+      <div className="grid md:grid-cols-3 gap-6">
+        {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-72" />)}
+      </div>
+    );
+  }
+
+  if (!equipment) {
+    return (
+      <div className="text-center p-4 bg-muted/50 rounded-lg">
+        <p className="text-sm text-muted-foreground">
+          Equipment requires an API key with the builds and characters permissions
+        </p>
+      </div>
+    );
+  }
+
+  const bySlot = new Map(equipment.map(e => [e.slot, e]));
+  const known = new Set([...ARMOR_SLOTS, ...TRINKET_SLOTS, ...AQUATIC_SLOTS, ...GATHERING_SLOTS, ...WEAPON_SETS.flatMap(s => s.slots)]);
+  const other = equipment.filter(e => !known.has(e.slot)).map(e => e.slot);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-3 gap-6">
+        <SlotGroup title="Armor" slots={ARMOR_SLOTS} bySlot={bySlot} />
+        <div className="space-y-4">
+          {WEAPON_SETS.map(set => <SlotGroup key={set.name} title={`Weapons ${set.name}`} slots={set.slots} bySlot={bySlot} />)}
+        </div>
+        <SlotGroup title="Trinkets" slots={TRINKET_SLOTS} bySlot={bySlot} />
+      </div>
+      <div className="grid md:grid-cols-3 gap-6">
+        <SlotGroup title="Aquatic" slots={AQUATIC_SLOTS} bySlot={bySlot} />
+        <SlotGroup title="Gathering" slots={GATHERING_SLOTS} bySlot={bySlot} />
+        {other.length > 0 && <SlotGroup title="Other" slots={other} bySlot={bySlot} />}
+      </div>
+    </div>
+  );
+}
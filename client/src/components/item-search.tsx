@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { GW2ItemIcon } from "@/components/gw2-item-icon";
+import { apiRequest } from "@/lib/queryClient";
+import { Search } from "lucide-react";
+import type { ItemLocation, ItemSearchResult } from "@/types";
+
+const RARITIES = ["Junk", "Basic", "Fine", "Masterwork", "Rare", "Exotic", "Ascended", "Legendary"];
+const ITEM_TYPES = [
+  "Armor", "Back", "Bag", "Consumable", "Container", "CraftingMaterial", "Gathering", "Gizmo",
+  "MiniPet", "Tool", "Trait", "Trinket", "Trophy", "UpgradeComponent", "Weapon",
+];
+
+export function describeLocation(location: ItemLocation) {
+  switch (location.type) {
+    case "bank":
+      return `Bank tab ${Math.floor(location.slot / 30) + 1}, slot ${(location.slot % 30) + 1}`;
+    case "materials":
+      return "Material Storage";
+    case "shared":
+      return `Shared slot ${location.slot + 1}`;
+    case "character":
+      return `${location.character}, bag ${location.bag + 1}`;
+  }
+}
+
+interface ItemSearchProps {
+  accountId: string;
+  onResultsChange: (results: ItemSearchResult[]) => void;
+  onCharacterSelect: (name: string) => void;
+}
+
+export function ItemSearch({ accountId, onResultsChange, onCharacterSelect }: ItemSearchProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [rarity, setRarity] = useState("all");
+  const [type, setType] = useState("all");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const hasFilters = debouncedQuery.length >= 2 || rarity !== "all" || type !== "all";
+
+  const { data: results = [], isFetching } = useQuery<ItemSearchResult[]>({
+    queryKey: ["/api/accounts", accountId, "items/search", debouncedQuery, rarity, type],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (debouncedQuery) params.set("q", debouncedQuery);
+      if (rarity !== "all") params.set("rarity", rarity);
+      if (type !== "all") params.set("type", type);
+      const response = await apiRequest("GET", `/api/accounts/${accountId}/items/search?${params}`);
+      return response.json();
+    },
+    enabled: hasFilters,
+    staleTime: 1000 * 60,
+  });
+
+  useEffect(() => {
+    onResultsChange(hasFilters ? results : []);
+  }, [results, hasFilters]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search bank, materials, shared slots and characters..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-10"
+            autoFocus
+          />
+        </div>
+        <Select value={rarity} onValueChange={setRarity}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any rarity</SelectItem>
+            {RARITIES.map((r) => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any type</SelectItem>
+            {ITEM_TYPES.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isFetching ? (
+        <div className="space-y-2">
+          <Skeleton className="h-14" />
+          <Skeleton className="h-14" />
+        </div>
+      ) : hasFilters && results.length === 0 ? (
+        <p className="text-sm text-center text-muted-foreground py-4">No items found.</p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {results.map((result) => (
+            <div key={result.itemId} className="flex items-start space-x-3 p-2 bg-muted rounded-lg">
+              <GW2ItemIcon iconUrl={result.icon} rarity={result.rarity} count={result.totalCount} size="md" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{result.name}</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {result.stacks.map((stack, i) => (
+                    <Badge
+                      key={i}
+                      variant="outline"
+                      className={`text-xs ${stack.location.type === "character" ? "cursor-pointer hover:bg-accent" : ""}`}
+                      onClick={() => {
+                        if (stack.location.type === "character") onCharacterSelect(stack.location.character);
+                      }}
+                    >
+                      {describeLocation(stack.location)} ×{stack.count}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
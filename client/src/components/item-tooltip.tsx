@@ -1,7 +1,6 @@
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { GW2ItemIcon } from "@/components/gw2-item-icon";
 import { useItemDetails } from "@/hooks/use-item-details";
-import type { GW2Item } from "@/types";
 
 interface ItemTooltipProps {
   itemId: number;
@@ -10,7 +9,7 @@ interface ItemTooltipProps {
   className?: string;
 }
 
-const RARITY_COLORS: Record<string, string> = {
+export const RARITY_COLORS: Record<string, string> = {
   Junk: "text-gray-400",
   Basic: "text-white",
   Fine: "text-blue-400",
@@ -22,7 +21,7 @@ const RARITY_COLORS: Record<string, string> = {
 };
 
 export function ItemTooltip({ itemId, count, size, className }: ItemTooltipProps) {
-  const { data: itemData, isLoading } = useItemDetails(itemId) as { data: GW2Item | undefined; isLoading: boolean };
+  const { data: itemData, isLoading } = useItemDetails(itemId);
 
   const rarityColor = itemData?.rarity ? RARITY_COLORS[itemData.rarity] || "text-white" : "text-white";
 
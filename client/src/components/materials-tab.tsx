@@ -1,90 +1,311 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Search, Package, Gem, Hammer, Sparkles } from "lucide-react";
-import { ItemTooltip } from "@/components/item-tooltip";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { Search, Package, ChevronDown } from "lucide-react";
+import { GW2ItemIcon } from "@/components/gw2-item-icon";
+import { CoinValue } from "@/components/coin-value";
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { STORAGE_CAPACITIES, useMaterialCapacity } from "@/hooks/use-material-capacity";
 import type { Material } from "@shared/schema";
+import type { MaterialCategory, MaterialSlot } from "@/types";
+
+const NEAR_CAP_RATIO = 0.9;
+
+const RARITIES = ["Junk", "Basic", "Fine", "Masterwork", "Rare", "Exotic", "Ascended", "Legendary"];
+
+type SortKey = "order" | "count" | "name" | "value";
+
+interface MaterialFilters {
+  q: string;
+  rarity: string;
+  category: string;
+  owned: boolean;
+  sort: SortKey;
+}
+
+const DEFAULT_FILTERS: MaterialFilters = { q: "", rarity: "all", category: "all", owned: false, sort: "order" };
+
+// Filters live in the query string so a filtered view can be bookmarked or shared
+function useMaterialFilters(): [MaterialFilters, (patch: Partial<MaterialFilters>) => void] {
+  const [location, navigate] = useLocation();
+  const params = new URLSearchParams(useSearch());
+
+  const filters: MaterialFilters = {
+    q: params.get("q") ?? DEFAULT_FILTERS.q,
+    rarity: params.get("rarity") ?? DEFAULT_FILTERS.rarity,
+    category: params.get("category") ?? DEFAULT_FILTERS.category,
+    owned: params.get("owned") === "1",
+    sort: (params.get("sort") as SortKey) ?? DEFAULT_FILTERS.sort,
+  };
+
+  const update = (patch: Partial<MaterialFilters>) => {
+    const next = { ...filters, ...patch };
+    const search = new URLSearchParams();
+    if (next.q) search.set("q", next.q);
+    if (next.rarity !== DEFAULT_FILTERS.rarity) search.set("rarity", next.rarity);
+    if (next.category !== DEFAULT_FILTERS.category) search.set("category", next.category);
+    if (next.owned) search.set("owned", "1");
+    if (next.sort !== DEFAULT_FILTERS.sort) search.set("sort", next.sort);
+    const query = search.toString();
+    navigate(query ? `${location}?${query}` : location, { replace: true });
+  };
+
+  return [filters, update];
+}
+
+interface SlotRow extends MaterialSlot {
+  count: number;
+  value: number;
+  matches: boolean;
+}
+
+const sorters: Record<SortKey, ((a: SlotRow, b: SlotRow) => number) | null> = {
+  order: null,
+  count: (a, b) => b.count - a.count,
+  name: (a, b) => a.name.localeCompare(b.name),
+  value: (a, b) => b.value - a.value || (b.price?.sell ?? 0) - (a.price?.sell ?? 0),
+};
+
+function FillBar({ count, capacity }: { count: number; capacity: number }) {
+  const ratio = Math.min(count / capacity, 1);
+  const tone = ratio >= 1 ? "bg-destructive" : ratio >= NEAR_CAP_RATIO ? "bg-yellow-500" : "bg-primary";
+
+  return (
+    <div className="h-1 w-16 rounded-full bg-muted overflow-hidden">
+      <div className={`h-full ${tone}`} style={{ width: `${ratio * 100}%` }} />
+    </div>
+  );
+}
+
+interface MaterialSlotViewProps {
+  slot: SlotRow;
+  capacity: number;
+  showCapacity: boolean;
+  searching: boolean;
+}
+
+function MaterialSlotView({ slot, capacity, showCapacity, searching }: MaterialSlotViewProps) {
+  const atCap = slot.count >= capacity;
+  const nearingCap = !atCap && slot.count >= capacity * NEAR_CAP_RATIO;
+
+  let className = "hover:opacity-80 transition-opacity cursor-pointer";
+  if (searching && slot.matches) className = "ring-2 ring-primary";
+  else if (searching || slot.count === 0) className = "opacity-30 grayscale";
+  else if (showCapacity && atCap) className = "ring-2 ring-destructive";
+  else if (showCapacity && nearingCap) className = "ring-2 ring-yellow-500";
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <Tooltip>
+        <TooltipTrigger>
+          <GW2ItemIcon iconUrl={slot.icon} rarity={slot.rarity} count={slot.count} size="lg" className={className} />
+        </TooltipTrigger>
+        <TooltipContent side="top" className="max-w-xs bg-black/80 border-border text-white">
+          <div className="space-y-1">
+            <p className="font-semibold">{slot.name}</p>
+            <p className="text-sm">
+              {slot.count.toLocaleString()}{showCapacity && ` / ${capacity.toLocaleString()}`}
+            </p>
+            {slot.price && (
+              <p className="text-sm">TP sell: <CoinValue copper={slot.price.sell} /></p>
+            )}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+      {showCapacity && slot.count > 0 && <FillBar count={slot.count} capacity={capacity} />}
+    </div>
+  );
+}
 
 interface MaterialsTabProps {
   materials: Material[];
+  // Keys the per-account capacity override; omitted for merged views
+  accountId?: string;
+  // Fill bars are meaningless for counts summed across accounts
+  showCapacity?: boolean;
 }
 
-export function MaterialsTab({ materials }: MaterialsTabProps) {
-  const [searchTerm, setSearchTerm] = useState("");
-
-  // Material categories with their icons
-  const getMaterialIcon = (category: number) => {
-    const icons: Record<number, React.ReactNode> = {
-      5: <Package className="h-4 w-4" />, // Cooking
-      6: <Hammer className="h-4 w-4" />, // Crafting
-      29: <Gem className="h-4 w-4" />, // Gemstones
-      38: <Sparkles className="h-4 w-4" />, // Mystic
-    };
-    return icons[category] || <Package className="h-4 w-4" />;
-  };
+export function MaterialsTab({ materials, accountId, showCapacity = true }: MaterialsTabProps) {
+  const [filters, setFilters] = useMaterialFilters();
+  // Categories the user has opened or closed by hand; the rest follow the filters
+  const [toggled, setToggled] = useState<Record<number, boolean>>({});
+
+  const { data: categories = [], isLoading } = useQuery<MaterialCategory[]>({
+    queryKey: ["/api/materials"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/materials");
+      return response.json();
+    },
+    staleTime: 1000 * 60 * 5, // TP prices are cached server-side for 5 minutes
+  });
+
+  const { capacity, derived, override, setOverride } = useMaterialCapacity(accountId, materials);
+  const counts = new Map(materials.map(material => [material.itemId, material.count]));
+  const nearCap = materials.filter(material => material.count >= capacity * NEAR_CAP_RATIO).length;
+
+  if (isLoading) {
+    return <Skeleton className="h-64" />;
+  }
 
-  const groupedMaterials = materials.reduce((acc, material) => {
-    const category = material.category || 0;
-    if (!acc[category]) {
-      acc[category] = [];
-    }
-    acc[category].push(material);
-    return acc;
-  }, {} as Record<number, Material[]>);
+  const needle = filters.q.trim().toLowerCase();
+  const searching = needle.length > 0;
 
-  // Note: The search functionality will be limited without item names.
-  // A full implementation would require fetching all item details.
-  const filteredMaterials = Object.entries(groupedMaterials);
+  const sections = categories
+    .filter(category => filters.category === "all" || String(category.id) === filters.category)
+    .map(category => {
+      const slots: SlotRow[] = category.items
+        .map(slot => {
+          const count = counts.get(slot.itemId) ?? 0;
+          return {
+            ...slot,
+            count,
+            value: count * (slot.price?.sell ?? 0),
+            matches: !searching || slot.name.toLowerCase().includes(needle),
+          };
+        })
+        .filter(slot =>
+          (filters.rarity === "all" || slot.rarity === filters.rarity) &&
+          (!filters.owned || slot.count > 0)
+        );
+
+      const sorter = sorters[filters.sort];
+      if (sorter) slots.sort(sorter);
+
+      return {
+        category,
+        slots,
+        owned: category.items.filter(slot => (counts.get(slot.itemId) ?? 0) > 0).length,
+        matches: slots.filter(slot => slot.matches).length,
+      };
+    });
 
   return (
     <div className="space-y-6">
-      {/* Search Bar */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search materials..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-10"
-          disabled // Disabled until item names are available for searching
-        />
+      <div className="flex flex-col lg:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search materials..."
+            value={filters.q}
+            onChange={(e) => setFilters({ q: e.target.value })}
+            className="pl-10"
+          />
+        </div>
+        <Select value={filters.rarity} onValueChange={(rarity) => setFilters({ rarity })}>
+          <SelectTrigger className="lg:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any rarity</SelectItem>
+            {RARITIES.map((r) => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={filters.category} onValueChange={(category) => setFilters({ category })}>
+          <SelectTrigger className="lg:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All categories</SelectItem>
+            {categories.map((c) => <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={filters.sort} onValueChange={(sort) => setFilters({ sort: sort as SortKey })}>
+          <SelectTrigger className="lg:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="order">In-game order</SelectItem>
+            <SelectItem value="count">Count</SelectItem>
+            <SelectItem value="name">Name</SelectItem>
+            <SelectItem value="value">TP value</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center space-x-2 px-2">
+          <Switch id="materials-owned" checked={filters.owned} onCheckedChange={(owned) => setFilters({ owned })} />
+          <Label htmlFor="materials-owned" className="whitespace-nowrap">Owned only</Label>
+        </div>
       </div>
 
+      {showCapacity && materials.length > 0 && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Label htmlFor="materials-capacity">Storage capacity</Label>
+          <Select
+            value={override === null ? "auto" : String(override)}
+            onValueChange={(value) => setOverride(value === "auto" ? null : Number(value))}
+          >
+            <SelectTrigger id="materials-capacity" className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto ({derived.toLocaleString()})</SelectItem>
+              {STORAGE_CAPACITIES.map((c) => <SelectItem key={c} value={String(c)}>{c.toLocaleString()}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <span>per material</span>
+          {nearCap > 0 && <Badge variant="destructive">{nearCap} at or near cap</Badge>}
+        </div>
+      )}
+
       {/* Materials Grid */}
       <div className="space-y-6">
-        {filteredMaterials.map(([category, mats]) => (
-          <Card key={category}>
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                {getMaterialIcon(parseInt(category))}
-                <span>Category {category}</span>
-                <Badge variant="secondary">{mats.length} items</Badge>
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3">
-                {mats.map((material) => (
-                  <ItemTooltip
-                    key={material.id}
-                    itemId={material.itemId}
-                    count={material.count}
-                    size="lg"
-                    className="hover:opacity-80 transition-opacity cursor-pointer"
-                  />
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+        {sections.map(({ category, slots, owned, matches }) => {
+          const empty = slots.length === 0 || matches === 0;
+          const open = toggled[category.id] ?? !empty;
+
+          return (
+            <Collapsible
+              key={category.id}
+              open={open}
+              onOpenChange={(value) => setToggled(current => ({ ...current, [category.id]: value }))}
+            >
+              <Card className={empty ? "opacity-60" : ""}>
+                <CardHeader>
+                  <CollapsibleTrigger className="w-full">
+                    <CardTitle className="flex items-center space-x-2">
+                      <Package className="h-4 w-4" />
+                      <span>{category.name}</span>
+                      <Badge variant="secondary">{owned}/{category.items.length} items</Badge>
+                      {searching && <Badge variant="outline">{matches} matches</Badge>}
+                      <ChevronDown className={`h-4 w-4 ml-auto transition-transform ${open ? "rotate-180" : ""}`} />
+                    </CardTitle>
+                  </CollapsibleTrigger>
+                </CardHeader>
+                <CollapsibleContent>
+                  <CardContent>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3">
+                      {slots.map((slot) => (
+                        <MaterialSlotView
+                          key={slot.itemId}
+                          slot={slot}
+                          capacity={capacity}
+                          showCapacity={showCapacity}
+                          searching={searching}
+                        />
+                      ))}
+                    </div>
+                  </CardContent>
+                </CollapsibleContent>
+              </Card>
+            </Collapsible>
+          );
+        })}
       </div>
 
-      {Object.keys(filteredMaterials).length === 0 && (
+      {sections.every(section => section.matches === 0) && (
         <Card>
           <CardContent className="text-center py-12">
             <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <p className="text-muted-foreground">
-              {searchTerm ? "No materials found matching your search." : "No materials available."}
+              {categories.length > 0 ? "No materials found matching your filters." : "No materials available."}
             </p>
           </CardContent>
         </Card>
@@ -0,0 +1,114 @@
+import { Pie, PieChart, Cell } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { GW2ItemIcon } from "@/components/gw2-item-icon";
+import { CoinValue } from "@/components/coin-value";
+import { formatCoins } from "@shared/coins";
+import type { NetWorth, Valuation } from "@/types";
+
+// Every location other than these is a character name
+const FIXED_LOCATIONS = ["Wallet", "Bank", "Material Storage", "Shared Inventory"];
+const COLORS = ["var(--chart-1)", "var(--chart-2)", "var(--chart-3)", "var(--chart-4)", "var(--chart-5)"];
+
+const chartConfig = {
+  value: { label: "Value" },
+} satisfies ChartConfig;
+
+interface NetWorthCardProps {
+  netWorth: NetWorth | undefined;
+  isLoading: boolean;
+  valuation: Valuation;
+  onValuationChange: (valuation: Valuation) => void;
+}
+
+export function NetWorthCard({ netWorth, isLoading, valuation, onValuationChange }: NetWorthCardProps) {
+  const composition = netWorth
+    ? [
+        ...netWorth.byLocation.filter(l => FIXED_LOCATIONS.includes(l.location)),
+        {
+          location: "Characters",
+          value: netWorth.byLocation
+            .filter(l => !FIXED_LOCATIONS.includes(l.location))
+            .reduce((sum, l) => sum + l.value, 0),
+        },
+      ].filter(l => l.value > 0)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Net Worth</CardTitle>
+        <Select value={valuation} onValueChange={(value) => onValuationChange(value as Valuation)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sell">TP sell price</SelectItem>
+            <SelectItem value="buy">TP buy price</SelectItem>
+            <SelectItem value="vendor">Vendor value</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-64" />
+        ) : netWorth ? (
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <ChartContainer config={chartConfig} className="aspect-square max-h-64 mx-auto">
+                <PieChart>
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        nameKey="location"
+                        formatter={(value, name) => `${name}: ${formatCoins(Number(value))}`}
+                      />
+                    }
+                  />
+                  <Pie data={composition} dataKey="value" nameKey="location" innerRadius={50}>
+                    {composition.map((entry, index) => (
+                      <Cell key={entry.location} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                </PieChart>
+              </ChartContainer>
+              <div className="space-y-1 mt-4">
+                {composition.map((entry, index) => (
+                  <div key={entry.location} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className="w-3 h-3 rounded-sm" style={{ background: COLORS[index % COLORS.length] }} />
+                      <span>{entry.location}</span>
+                    </div>
+                    <CoinValue copper={entry.value} className="font-medium" />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Most valuable items</p>
+              {netWorth.items.slice(0, 8).map((item) => (
+                <div key={`${item.itemId}:${item.accountBound}`} className="flex items-center space-x-3 p-2 bg-muted rounded-lg">
+                  <GW2ItemIcon iconUrl={item.icon} count={item.count} size="sm" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{item.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{item.locations.join(", ")}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-medium"><CoinValue copper={item.value} /></p>
+                    {item.accountBound && <Badge variant="outline" className="text-xs">Bound</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-center py-8 text-muted-foreground">Net worth unavailable</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import type { AccountWithDetails } from "@shared/schema";
+
+interface SyncStatusProps {
+  account: AccountWithDetails;
+}
+
+// Dates arrive as ISO strings over JSON
+const ago = (date: Date | string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+export function SyncStatus({ account }: SyncStatusProps) {
+  const { lastSyncedAt, lastSyncStatus, lastSyncError, nextSyncAt } = account;
+  if (!lastSyncedAt && !nextSyncAt) return null;
+
+  return (
+    <p className="text-xs text-muted-foreground flex items-center gap-1">
+      {lastSyncStatus === "failed" && (
+        <AlertTriangle className="h-3 w-3 text-destructive" aria-label={lastSyncError ?? "Last sync failed"} />
+      )}
+      {lastSyncStatus === "partial" && lastSyncError && (
+        <AlertTriangle className="h-3 w-3 text-yellow-500" aria-label={lastSyncError} />
+      )}
+      {lastSyncedAt && (
+        <span title={lastSyncError ?? undefined}>
+          {lastSyncStatus === "failed" ? "Sync failed" : "Synced"} {ago(lastSyncedAt)}
+        </span>
+      )}
+      {lastSyncedAt && nextSyncAt && <span>·</span>}
+      {nextSyncAt && <span>next sync {ago(nextSyncAt)}</span>}
+    </p>
+  );
+}
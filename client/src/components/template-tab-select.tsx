@@ -0,0 +1,32 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface TemplateTab {
+  tab: number;
+  name: string;
+  isActive: boolean;
+}
+
+interface TemplateTabSelectProps {
+  tabs: TemplateTab[];
+  value: number;
+  onChange: (tab: number) => void;
+}
+
+// Picks a build or equipment template tab; the one in use in game is marked active
+export function TemplateTabSelect({ tabs, value, onChange }: TemplateTabSelectProps) {
+  return (
+    <Select value={String(value)} onValueChange={(tab) => onChange(Number(tab))}>
+      <SelectTrigger className="w-64">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {tabs.map((tab) => (
+          <SelectItem key={tab.tab} value={String(tab.tab)}>
+            {tab.name || `Tab ${tab.tab}`}
+            {tab.isActive && " (active)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
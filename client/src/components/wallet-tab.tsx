@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Line, LineChart } from "recharts";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { CurrencyIcon } from "@/components/currency-icon";
+import { apiRequest } from "@/lib/queryClient";
+import { CoinValue } from "@/components/coin-value";
+import { WALLET_CATEGORIES, walletCategory } from "@/lib/currencies";
+import type { Wallet } from "@shared/schema";
+import type { GW2Currency, WalletHistoryPoint } from "@/types";
+
+const COIN_CURRENCY_ID = 1;
+const CATEGORY_ORDER = [...WALLET_CATEGORIES.map(c => c.name), "Other"];
+
+type SortKey = "order" | "name" | "value" | "change";
+
+interface WalletRow {
+  currency: GW2Currency;
+  value: number;
+  change: number | null;
+  history: number[];
+}
+
+function Amount({ currencyId, value, signed }: { currencyId: number; value: number; signed?: boolean }) {
+  if (currencyId === COIN_CURRENCY_ID) return <CoinValue copper={value} signed={signed} />;
+  return <>{signed && value > 0 ? "+" : ""}{value.toLocaleString()}</>;
+}
+
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return <div className="w-20" />;
+
+  return (
+    <LineChart width={80} height={24} data={values.map(value => ({ value }))}>
+      <Line type="monotone" dataKey="value" stroke="var(--chart-1)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+    </LineChart>
+  );
+}
+
+function ChangeLabel({ currencyId, change }: { currencyId: number; change: number | null }) {
+  if (!change) return <span className="text-xs text-muted-foreground">—</span>;
+
+  return (
+    <span className={`text-xs font-medium ${change > 0 ? "text-green-500" : "text-destructive"}`}>
+      <Amount currencyId={currencyId} value={change} signed />
+    </span>
+  );
+}
+
+const sorters: Record<SortKey, (a: WalletRow, b: WalletRow) => number> = {
+  order: (a, b) => a.currency.order - b.currency.order,
+  name: (a, b) => a.currency.name.localeCompare(b.currency.name),
+  value: (a, b) => b.value - a.value,
+  change: (a, b) => Math.abs(b.change ?? 0) - Math.abs(a.change ?? 0),
+};
+
+interface WalletTabProps {
+  accountId: string;
+  wallet: Wallet[];
+}
+
+export function WalletTab({ accountId, wallet }: WalletTabProps) {
+  const [sortBy, setSortBy] = useState<SortKey>("order");
+
+  const { data: currencies = [], isLoading } = useQuery<GW2Currency[]>({
+    queryKey: ["/api/currencies"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/currencies");
+      return response.json();
+    },
+    staleTime: Infinity,
+  });
+
+  const { data: history = [] } = useQuery<WalletHistoryPoint[]>({
+    queryKey: ["/api/accounts", accountId, "wallet/history"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/accounts/${accountId}/wallet/history`);
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-64" />;
+  }
+
+  const series = history.map(point => new Map(point.wallet.map(w => [w.currencyId, w.value])));
+  // The newest snapshot is the current wallet, so the one before it is the last sync
+  const previous = series.length >= 2 ? series[series.length - 2] : undefined;
+
+  const rows: WalletRow[] = wallet.flatMap(entry => {
+    const currency = currencies.find(c => c.id === entry.currencyId);
+    if (!currency) return [];
+    return [{
+      currency,
+      value: entry.value,
+      change: previous ? entry.value - (previous.get(entry.currencyId) ?? 0) : null,
+      history: series.map(values => values.get(entry.currencyId) ?? 0),
+    }];
+  });
+
+  const groups = CATEGORY_ORDER
+    .map(name => ({
+      name,
+      rows: rows.filter(row => walletCategory(row.currency.id) === name).sort(sorters[sortBy]),
+    }))
+    .filter(group => group.rows.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortKey)}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="order">In-game order</SelectItem>
+            <SelectItem value="name">Name</SelectItem>
+            <SelectItem value="value">Amount</SelectItem>
+            <SelectItem value="change">Change since last sync</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <p>No wallet data. Connect an API key with the Wallet permission and refresh.</p>
+        </div>
+      ) : (
+        groups.map((group) => (
+          <div key={group.name} className="space-y-2">
+            <h3 className="text-sm font-semibold text-muted-foreground">{group.name}</h3>
+            <div className="grid md:grid-cols-2 gap-2">
+              {group.rows.map(({ currency, value, change, history: values }) => (
+                <div key={currency.id} className="flex items-center space-x-3 p-3 bg-muted rounded-lg" title={currency.description}>
+                  <CurrencyIcon currencyId={currency.id} className="w-8 h-8" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{currency.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{currency.description}</p>
+                  </div>
+                  <Sparkline values={values} />
+                  <div className="text-right min-w-[5rem]">
+                    <p className="text-sm font-bold"><Amount currencyId={currency.id} value={value} /></p>
+                    <ChangeLabel currencyId={currency.id} change={change} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+// Only the account id is kept client-side; API keys stay on the server behind the session cookie
+const ACTIVE_STORAGE_KEY = "gw2-account-id";
+// Earlier versions stored raw API keys here
+const LEGACY_KEYS_STORAGE_KEY = "gw2-api-keys";
+const LEGACY_ACTIVE_STORAGE_KEY = "gw2-api-key";
+
+export interface SessionAccount {
+  id: string;
+  name: string;
+}
+
+function takeLegacyKeys(): string[] {
+  let keys: string[] = [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEGACY_KEYS_STORAGE_KEY) || "[]");
+    if (Array.isArray(stored)) keys = stored;
+  } catch {
+    // Ignore malformed data, it is removed below either way
+  }
+  const active = localStorage.getItem(LEGACY_ACTIVE_STORAGE_KEY);
+  if (active && !keys.includes(active)) keys.push(active);
+
+  localStorage.removeItem(LEGACY_KEYS_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_ACTIVE_STORAGE_KEY);
+  return keys;
+}
+
+// Every account signed in to this session plus which one the dashboard is showing
+export function useAccounts() {
+  const queryClient = useQueryClient();
+  const [storedActiveId, setStoredActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_STORAGE_KEY));
+  const [showAll, setShowAll] = useState(false);
+
+  const { data, isLoading } = useQuery<{ accounts: SessionAccount[] }>({
+    queryKey: ["/api/session"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/session");
+      return response.json();
+    },
+  });
+  const accounts = data?.accounts ?? [];
+  const activeAccountId = accounts.some(a => a.id === storedActiveId) ? storedActiveId : accounts[0]?.id ?? null;
+
+  // Trade keys left in localStorage by earlier versions for a session, once
+  useEffect(() => {
+    const legacyKeys = takeLegacyKeys();
+    if (legacyKeys.length === 0) return;
+
+    // One at a time: each sign-in regenerates the session from the accounts already
+    // in it, so parallel requests would each drop the others' accounts
+    (async () => {
+      for (const key of legacyKeys) {
+        try {
+          await apiRequest("POST", "/api/session", { key });
+        } catch {
+          // A key that no longer validates is dropped
+        }
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/session"] });
+    })();
+  }, [queryClient]);
+
+  const setActiveAccount = (id: string | null) => {
+    if (id) {
+      localStorage.setItem(ACTIVE_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_STORAGE_KEY);
+    }
+    setStoredActiveId(id);
+    setShowAll(false);
+  };
+
+  // Call after POST /api/session has signed the account in
+  const addAccount = (id: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/session"] });
+    setActiveAccount(id);
+  };
+
+  const removeAccount = async (id: string) => {
+    await apiRequest("DELETE", `/api/session/${id}`);
+    queryClient.removeQueries({ queryKey: ["/api/accounts", id] });
+    await queryClient.invalidateQueries({ queryKey: ["/api/session"] });
+    if (activeAccountId === id) setActiveAccount(accounts.find(a => a.id !== id)?.id ?? null);
+  };
+
+  return { accounts, isLoading, activeAccountId, showAll, setShowAll, setActiveAccount, addAccount, removeAccount };
+}
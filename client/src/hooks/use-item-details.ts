@@ -1,5 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { GW2Item } from "@/types";
+
+// The server takes at most this many ids per bulk request
+const MAX_BULK_ITEM_IDS = 200;
 
 // Batching mechanism
 const itemQueue = new Set<number>();
@@ -12,22 +16,24 @@ const processBatch = async () => {
   const ids = Array.from(itemQueue);
   itemQueue.clear();
 
-  try {
-    const response = await apiRequest("POST", "/api/items-bulk", { ids });
-    const items = await response.json();
-    
-    // Cache each item individually
-    items.forEach((item: any) => {
-      queryClient.setQueryData(["item", item.id], item);
-    });
-  } catch (error) {
-    console.error("Failed to fetch bulk item details:", error);
+  for (let i = 0; i < ids.length; i += MAX_BULK_ITEM_IDS) {
+    try {
+      const response = await apiRequest("POST", "/api/items-bulk", { ids: ids.slice(i, i + MAX_BULK_ITEM_IDS) });
+      const items: GW2Item[] = await response.json();
+
+      // Cache each item individually
+      items.forEach(item => {
+        queryClient.setQueryData(["item", item.id], item);
+      });
+    } catch (error) {
+      console.error("Failed to fetch bulk item details:", error);
+    }
   }
 };
 
 // Custom hook to use the batching mechanism
 export function useItemDetails(itemId: number) {
-  const { data, ...rest } = useQuery({
+  const { data, ...rest } = useQuery<GW2Item>({
     queryKey: ["item", itemId],
     queryFn: async () => {
       // Add to queue and debounce
@@ -36,9 +42,9 @@ export function useItemDetails(itemId: number) {
       batchTimeout = setTimeout(processBatch, 50); // 50ms debounce window
 
       // Return a promise that will resolve when the batch is processed
-      return new Promise((resolve) => {
+      return new Promise<GW2Item>((resolve) => {
         const interval = setInterval(() => {
-          const cachedData = queryClient.getQueryData(["item", itemId]);
+          const cachedData = queryClient.getQueryData<GW2Item>(["item", itemId]);
           if (cachedData) {
             clearInterval(interval);
             resolve(cachedData);
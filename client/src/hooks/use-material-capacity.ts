@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import type { Material } from "@shared/schema";
+
+// Storage starts at 250 per material and each Material Storage Expander adds 250,
+// up to 3,000. The API doesn't expose the expander count, so it is derived from the
+// largest stack unless the player sets it for the account.
+export const STORAGE_STEP = 250;
+export const MAX_STORAGE_CAPACITY = 3000;
+
+// Every capacity the game allows, smallest first
+export const STORAGE_CAPACITIES = Array.from(
+  { length: MAX_STORAGE_CAPACITY / STORAGE_STEP },
+  (_, i) => (i + 1) * STORAGE_STEP,
+);
+
+// The smallest storage size that fits the largest stack
+export function derivedCapacity(materials: Material[]): number {
+  const largest = materials.reduce((max, material) => Math.max(max, material.count), 0);
+  const fitting = Math.ceil(largest / STORAGE_STEP) * STORAGE_STEP;
+  return Math.min(MAX_STORAGE_CAPACITY, Math.max(STORAGE_STEP, fitting));
+}
+
+const overrideKey = (accountId: string) => `gw2-material-capacity:${accountId}`;
+
+function storedOverride(accountId?: string): number | null {
+  if (!accountId) return null;
+  const stored = Number(localStorage.getItem(overrideKey(accountId)));
+  return STORAGE_CAPACITIES.includes(stored) ? stored : null;
+}
+
+interface MaterialCapacity {
+  capacity: number;
+  derived: number;
+  // The capacity the player picked for this account, remembered on this device
+  override: number | null;
+  setOverride: (capacity: number | null) => void;
+}
+
+export function useMaterialCapacity(accountId: string | undefined, materials: Material[]): MaterialCapacity {
+  const [override, setOverrideState] = useState(() => storedOverride(accountId));
+
+  useEffect(() => {
+    setOverrideState(storedOverride(accountId));
+  }, [accountId]);
+
+  const setOverride = (next: number | null) => {
+    if (accountId) {
+      if (next === null) localStorage.removeItem(overrideKey(accountId));
+      else localStorage.setItem(overrideKey(accountId), String(next));
+    }
+    setOverrideState(next);
+  };
+
+  const derived = derivedCapacity(materials);
+  return { capacity: override ?? derived, derived, override, setOverride };
+}
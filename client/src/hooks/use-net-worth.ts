@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { NetWorth, Valuation } from "@/types";
+
+export function useNetWorth(accountId: string | null, valuation: Valuation) {
+  return useQuery<NetWorth>({
+    queryKey: ["/api/accounts", accountId, "networth", valuation],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/accounts/${accountId}/networth?valuation=${valuation}`);
+      return response.json();
+    },
+    enabled: !!accountId,
+    staleTime: 1000 * 60 * 5, // Prices are cached server-side for 5 minutes
+  });
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { GW2Profession } from "@/types";
+
+export function useProfessions() {
+  const { data: professions = [] } = useQuery<GW2Profession[]>({
+    queryKey: ["/api/professions"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/professions");
+      return response.json();
+    },
+    staleTime: Infinity, // Professions data is static
+  });
+
+  // Core profession icon by name, e.g. "Guardian"
+  const professionIcon = (name: string | null | undefined) =>
+    professions.find(profession => profession.name === name)?.icon;
+
+  return { professions, professionIcon };
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { TradingPost } from "@shared/schema";
+
+export function useTradingPost(accountId: string | null) {
+  return useQuery<TradingPost | null>({
+    queryKey: ["/api/accounts", accountId, "tradingpost"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/accounts/${accountId}/tradingpost`);
+      return response.json();
+    },
+    enabled: !!accountId,
+  });
+}
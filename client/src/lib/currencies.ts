@@ -0,0 +1,18 @@
+// The API has no currency categories, so these mirror the in-game wallet groups.
+// Currencies added after this list was written fall into "Other".
+export const WALLET_CATEGORIES: { name: string; currencyIds: number[] }[] = [
+  { name: "General", currencyIds: [1, 4, 2, 3, 18, 23, 16, 50, 61, 63, 68, 69, 70] },
+  { name: "Competitive", currencyIds: [15, 26, 30, 31, 33, 36, 46, 65] },
+  { name: "Map", currencyIds: [19, 20, 22, 25, 27, 28, 32, 34, 35, 45, 47, 57, 58, 59, 60, 62, 64, 66, 67, 71, 72, 73, 75, 76, 77] },
+  { name: "Keys", currencyIds: [37, 38, 40, 41, 42, 43, 44, 49, 51] },
+  { name: "Dungeon", currencyIds: [5, 6, 7, 9, 10, 11, 12, 13, 14, 24] },
+  { name: "Historic", currencyIds: [29, 39, 52, 53, 54, 55, 56] },
+];
+
+const categoryById = new Map(
+  WALLET_CATEGORIES.flatMap(category => category.currencyIds.map(id => [id, category.name] as const))
+);
+
+export function walletCategory(currencyId: number): string {
+  return categoryById.get(currencyId) ?? "Other";
+}
@@ -14,11 +14,6 @@ export async function apiRequest(
 ): Promise<Response> {
   const baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
   const headers: HeadersInit = data ? { "Content-Type": "application/json" } : {};
-  
-  const apiKey = localStorage.getItem("gw2-api-key");
-  if (apiKey) {
-    headers["Authorization"] = `Bearer ${apiKey}`;
-  }
 
   const res = await fetch(`${baseUrl}${url}`, {
     method,
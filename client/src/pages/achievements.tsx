@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { AchievementCard } from "@/components/achievement-card";
+import { useAccounts } from "@/hooks/use-accounts";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft } from "lucide-react";
+import type { AchievementCategorySummary, AchievementOverview, AchievementProgress } from "@/types";
+
+function CategoryButton({ category, selected, onSelect }: {
+  category: AchievementCategorySummary;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const percent = category.total > 0 ? (category.done / category.total) * 100 : 0;
+
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={`w-full text-left p-2 rounded-lg space-y-1 hover:bg-accent ${selected ? "bg-accent" : ""}`}
+    >
+      <div className="flex items-center space-x-2">
+        <img src={category.icon} alt="" className="w-6 h-6" />
+        <span className="flex-1 text-sm truncate">{category.name}</span>
+        <span className="text-xs text-muted-foreground">{category.done}/{category.total}</span>
+      </div>
+      <Progress value={percent} className="h-1" />
+    </button>
+  );
+}
+
+export default function AchievementsPage() {
+  const { activeAccountId } = useAccounts();
+  const [selectedCategory, setSelectedCategory] = useState<AchievementCategorySummary | null>(null);
+
+  const { data: overview, isLoading, error } = useQuery<AchievementOverview>({
+    queryKey: ["/api/accounts", activeAccountId, "achievements"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/accounts/${activeAccountId}/achievements`);
+      return response.json();
+    },
+    enabled: !!activeAccountId,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const { data: achievements, isLoading: isCategoryLoading } = useQuery<AchievementProgress[]>({
+    queryKey: ["/api/accounts", activeAccountId, "achievements", selectedCategory?.id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/accounts/${activeAccountId}/achievements/categories/${selectedCategory!.id}`);
+      return response.json();
+    },
+    enabled: !!activeAccountId && !!selectedCategory,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link href="/">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        {!activeAccountId ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Connect an account on the dashboard to see its achievements</p>
+            </CardContent>
+          </Card>
+        ) : isLoading ? (
+          <Skeleton className="h-64" />
+        ) : error || !overview ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">
+                {error?.message.startsWith("403")
+                  ? "Achievements need an API key with the Progression permission."
+                  : "Failed to load achievements"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Closest to Done</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Unfinished achievements with the least progress left per achievement point
+                </p>
+              </CardHeader>
+              <CardContent>
+                {overview.closestToDone.length > 0 ? (
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {overview.closestToDone.map((achievement) => (
+                      <AchievementCard key={achievement.id} achievement={achievement} compact />
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-center py-8 text-muted-foreground">No achievements in progress</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid lg:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Categories</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Accordion type="multiple">
+                    {overview.groups.map((group) => {
+                      const done = group.categories.reduce((sum, c) => sum + c.done, 0);
+                      const total = group.categories.reduce((sum, c) => sum + c.total, 0);
+                      return (
+                        <AccordionItem key={group.id} value={group.id}>
+                          <AccordionTrigger className="text-sm">
+                            <span className="flex-1 text-left">{group.name}</span>
+                            <span className="text-xs text-muted-foreground mr-2">{done}/{total}</span>
+                          </AccordionTrigger>
+                          <AccordionContent className="space-y-1">
+                            {group.categories.map((category) => (
+                              <CategoryButton
+                                key={category.id}
+                                category={category}
+                                selected={selectedCategory?.id === category.id}
+                                onSelect={() => setSelectedCategory(category)}
+                              />
+                            ))}
+                          </AccordionContent>
+                        </AccordionItem>
+                      );
+                    })}
+                  </Accordion>
+                </CardContent>
+              </Card>
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>{selectedCategory?.name ?? "Achievements"}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {!selectedCategory ? (
+                    <p className="text-center py-8 text-muted-foreground">Pick a category to see its achievements</p>
+                  ) : isCategoryLoading ? (
+                    Array.from({ length: 4 }).map((_, i) => <Skeleton key={i} className="h-28" />)
+                  ) : (
+                    achievements?.map((achievement) => (
+                      <AchievementCard key={achievement.id} achievement={achievement} />
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { ActivityItem, ACTIVITY_TYPE_LABELS } from "@/components/activity-item";
+import { useAccounts } from "@/hooks/use-accounts";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
+import type { Activity } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+interface ActivityPage {
+  activities: Activity[];
+  hasMore: boolean;
+}
+
+export default function ActivityPage() {
+  const { activeAccountId } = useAccounts();
+  const [type, setType] = useState("all");
+  const [page, setPage] = useState(0);
+
+  const { data, isLoading } = useQuery<ActivityPage>({
+    queryKey: ["/api/accounts", activeAccountId, "activities", type, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (type !== "all") params.set("type", type);
+      const response = await apiRequest("GET", `/api/accounts/${activeAccountId}/activities?${params}`);
+      return response.json();
+    },
+    enabled: !!activeAccountId,
+  });
+
+  const handleTypeChange = (value: string) => {
+    setType(value);
+    setPage(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link href="/">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Activity</CardTitle>
+            <Select value={type} onValueChange={handleTypeChange}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Activity</SelectItem>
+                {Object.entries(ACTIVITY_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!activeAccountId ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>Connect an account on the dashboard to see its activity</p>
+              </div>
+            ) : isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-16" />)
+            ) : data && data.activities.length > 0 ? (
+              data.activities.map((activity) => <ActivityItem key={activity.id} activity={activity} />)
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <p>No activity recorded yet</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Newer
+              </Button>
+              <span className="text-sm text-muted-foreground">Page {page + 1}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={!data?.hasMore}
+              >
+                Older
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
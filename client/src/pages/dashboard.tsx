@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueries, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,9 +13,22 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { CharacterModal } from "@/components/character-modal";
 import { MaterialsTab } from "@/components/materials-tab";
-import { GW2ItemIcon } from "@/components/gw2-item-icon";
+import { BankTab } from "@/components/bank-tab";
+import { useProfessions } from "@/hooks/use-professions";
+import { WalletTab } from "@/components/wallet-tab";
 import { ItemTooltip } from "@/components/item-tooltip";
 import { CurrencyIcon } from "@/components/currency-icon";
+import { ActivityItem } from "@/components/activity-item";
+import { useTradingPost } from "@/hooks/use-trading-post";
+import { useNetWorth } from "@/hooks/use-net-worth";
+import { NetWorthCard } from "@/components/net-worth-card";
+import { ItemSearch } from "@/components/item-search";
+import { AccountSwitcher } from "@/components/account-switcher";
+import { AllAccountsView } from "@/components/all-accounts-view";
+import { SyncStatus } from "@/components/sync-status";
+import { useAccounts } from "@/hooks/use-accounts";
+import { CoinValue } from "@/components/coin-value";
+import { Link } from "wouter";
 import { 
   Coins, 
   Gem, 
@@ -37,45 +50,60 @@ import {
   Zap
 } from "lucide-react";
 import type { AccountWithDetails, Character } from "@shared/schema";
+import type { ItemSearchResult, Valuation } from "@/types";
+
+// GW2 API key scopes, in the order account.arena.net lists them
+const API_PERMISSIONS = [
+  { id: "account", label: "Account", required: true },
+  { id: "inventories", label: "Inventories", required: true },
+  { id: "characters", label: "Characters", required: true },
+  { id: "wallet", label: "Wallet", required: true },
+  { id: "tradingpost", label: "Trading Post", required: false },
+  { id: "progression", label: "Progression", required: false },
+  { id: "unlocks", label: "Unlocks", required: false },
+  { id: "builds", label: "Builds", required: false },
+  { id: "guilds", label: "Guilds", required: false },
+];
 
 export default function Dashboard() {
   const [apiKey, setApiKey] = useState("");
   const [showApiKey, setShowApiKey] = useState(false);
-  const [validatedKey, setValidatedKey] = useState<string | null>(() => {
-    return localStorage.getItem("gw2-api-key");
-  });
+  const { accounts: sessionAccounts, activeAccountId, showAll, setShowAll, setActiveAccount, addAccount, removeAccount } = useAccounts();
   const [selectedCharacter, setSelectedCharacter] = useState<Character | null>(null);
   const [isCharacterModalOpen, setIsCharacterModalOpen] = useState(false);
+  const [valuation, setValuation] = useState<Valuation>("sell");
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchResults, setSearchResults] = useState<ItemSearchResult[]>([]);
   const { theme, toggleTheme } = useTheme();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Fetch professions data
-  const { data: professions = [] } = useQuery<any[]>({
-    queryKey: ["/api/professions"],
-    queryFn: async () => {
-      const response = await apiRequest("GET", "/api/professions");
-      return response.json();
-    },
-    staleTime: Infinity, // Professions data is static
-  });
+  const { professionIcon } = useProfessions();
 
-  // Validate API key mutation
+  // Sign in with the API key; the server keeps it and hands back a session cookie
   const validateKeyMutation = useMutation({
     mutationFn: async (key: string) => {
-      const response = await apiRequest("POST", "/api/validate-key", { key });
+      const response = await apiRequest("POST", "/api/session", { key });
       return response.json();
     },
     onSuccess: (data) => {
       if (data.success && data.account) {
         // Manually set the query data for the account from the mutation response
-        queryClient.setQueryData(["/api/account", apiKey], data.account);
+        queryClient.setQueryData(["/api/accounts", data.account.id], data.account);
         
-        localStorage.setItem("gw2-api-key", apiKey);
-        setValidatedKey(apiKey);
+        addAccount(data.account.id);
+        setApiKey("");
+        const skipped: { step: string }[] = data.skipped || [];
+        const failed: { step: string }[] = data.failed || [];
+        const notes = [
+          skipped.length > 0 && `skipped ${skipped.map(s => s.step).join(", ")} due to missing permissions`,
+          failed.length > 0 && `could not sync ${failed.map(f => f.step).join(", ")}`,
+        ].filter(Boolean);
         toast({
           title: "API Key Validated",
-          description: "Successfully connected to your GW2 account!",
+          description: notes.length > 0
+            ? `Connected, but ${notes.join(" and ")}.`
+            : "Successfully connected to your GW2 account!",
         });
       }
     },
@@ -90,21 +118,46 @@ export default function Dashboard() {
 
   // Fetch account data
   const { data: account, isLoading } = useQuery<AccountWithDetails>({
-    queryKey: ["/api/account", validatedKey],
-    enabled: !!validatedKey,
+    queryKey: ["/api/accounts", activeAccountId],
+    enabled: !!activeAccountId,
   });
 
+  // Every signed-in account, each cached under its own id; only loaded for the combined view
+  const allAccounts = useQueries({
+    queries: sessionAccounts.map(({ id }) => ({
+      queryKey: ["/api/accounts", id],
+      enabled: showAll,
+    })),
+  }).flatMap(query => query.data ? [query.data as AccountWithDetails] : []);
+
+  const { data: tradingPost } = useTradingPost(activeAccountId);
+  const { data: netWorth, isLoading: isNetWorthLoading } = useNetWorth(activeAccountId, valuation);
+
   // Refresh data mutation
   const refreshMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", `/api/refresh/${validatedKey}`);
+      const response = await apiRequest("POST", `/api/accounts/${activeAccountId}/refresh`);
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/account", validatedKey] });
+    onSuccess: (data) => {
+      if (data.account) {
+        queryClient.setQueryData(["/api/accounts", activeAccountId], data.account);
+      }
+      // Prefix match: also refetches this account's trading post, net worth, history and search
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", activeAccountId] });
+      const failed: { step: string }[] = data.failed || [];
       toast({
         title: "Data Refreshed",
-        description: "Account data has been updated!",
+        description: failed.length > 0
+          ? `Account data has been updated, but ${failed.map(f => f.step).join(", ")} could not be synced.`
+          : "Account data has been updated!",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Refresh Failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
   });
@@ -121,10 +174,11 @@ export default function Dashboard() {
     validateKeyMutation.mutate(apiKey);
   };
 
+  // In copper; render with CoinValue
   const getGoldValue = () => {
-    if (!account?.wallet) return "0";
+    if (!account?.wallet) return 0;
     const goldCurrency = account.wallet.find(w => w.currencyId === 1);
-    return goldCurrency ? Math.floor(goldCurrency.value / 10000).toLocaleString() : "0";
+    return goldCurrency?.value ?? 0;
   };
 
   const getGemsValue = () => {
@@ -155,17 +209,36 @@ export default function Dashboard() {
     return colors[profession] || "from-gray-500 to-gray-700";
   };
 
-  const getProfessionIcon = (professionName: string) => {
-    if (professions.length === 0) return null;
-    const professionData = professions.find(p => p.name === professionName);
-    return professionData?.icon;
-  };
-
   const handleCharacterClick = (character: Character) => {
     setSelectedCharacter(character);
     setIsCharacterModalOpen(true);
   };
 
+  const handleAddAccount = () => {
+    setApiKey("");
+    document.getElementById("apiKey")?.focus();
+  };
+
+  const handleRemoveAccount = (accountId: string) => {
+    removeAccount(accountId).catch((error: Error) => {
+      toast({
+        title: "Sign Out Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    });
+  };
+
+  const handleSearchCharacterSelect = (name: string) => {
+    const character = account?.characters.find(c => c.name === name);
+    if (character) handleCharacterClick(character);
+  };
+
+  const highlightedItemIds = new Set(searchResults.map(r => r.itemId));
+  const highlightedBankSlots = new Set(
+    searchResults.flatMap(r => r.stacks.map(s => s.location.type === "bank" ? s.location.slot : -1))
+  );
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -190,11 +263,16 @@ export default function Dashboard() {
               >
                 {theme === "dark" ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
               </Button>
-              {account && (
-                <div className="flex items-center space-x-2">
-                  <div className="w-8 h-8 bg-gradient-to-br from-gw2-purple to-purple-600 rounded-full"></div>
-                  <span className="hidden sm:inline text-sm font-medium text-foreground">{account.name}</span>
-                </div>
+              {sessionAccounts.length > 0 && (
+                <AccountSwitcher
+                  accounts={sessionAccounts}
+                  activeAccountId={activeAccountId}
+                  showAll={showAll}
+                  onSelect={setActiveAccount}
+                  onSelectAll={() => setShowAll(true)}
+                  onAdd={handleAddAccount}
+                  onRemove={handleRemoveAccount}
+                />
               )}
             </div>
           </div>
@@ -251,24 +329,26 @@ export default function Dashboard() {
               </div>
               
               <div className="space-y-2">
-                <Label>Required Permissions</Label>
-                <div className="space-y-2">
-                  <div className="flex items-center space-x-2">
-                    <Check className="h-4 w-4 text-green-500" />
-                    <span className="text-sm">Account</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Check className="h-4 w-4 text-green-500" />
-                    <span className="text-sm">Inventories</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Check className="h-4 w-4 text-green-500" />
-                    <span className="text-sm">Characters</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <X className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm text-muted-foreground">Trading Post (Optional)</span>
-                  </div>
+                <Label>
+                  {account ? `Permissions${account.keyName ? ` for "${account.keyName}"` : ""}` : "Required Permissions"}
+                </Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {API_PERMISSIONS.map((permission) => {
+                    // Before a key is connected, show which scopes we ask for
+                    const granted = account ? account.permissions.includes(permission.id) : permission.required;
+                    return (
+                      <div key={permission.id} className="flex items-center space-x-2">
+                        {granted ? (
+                          <Check className="h-4 w-4 text-green-500" />
+                        ) : (
+                          <X className={`h-4 w-4 ${account && permission.required ? "text-destructive" : "text-muted-foreground"}`} />
+                        )}
+                        <span className={`text-sm ${granted ? "" : "text-muted-foreground"}`}>
+                          {permission.label}{!permission.required && " (Optional)"}
+                        </span>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -286,8 +366,15 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
+        {showAll && (
+          <AllAccountsView
+            accounts={allAccounts}
+            onAccountSelect={setActiveAccount}
+          />
+        )}
+
         {/* Account Overview */}
-        {validatedKey && (
+        {activeAccountId && !showAll && (
           <div className="animate-in slide-in-from-bottom-4 duration-700 space-y-8">
             {isLoading ? (
               <div className="grid lg:grid-cols-3 gap-6">
@@ -320,7 +407,10 @@ export default function Dashboard() {
                 <div className="grid lg:grid-cols-3 gap-6">
                   <Card className="lg:col-span-2">
                     <CardHeader className="flex flex-row items-center justify-between">
-                      <CardTitle>Account Overview</CardTitle>
+                      <div className="space-y-1">
+                        <CardTitle>Account Overview</CardTitle>
+                        <SyncStatus account={account} />
+                      </div>
                       <div className="flex items-center space-x-2">
                         <Badge variant="outline" className="border-green-500 text-green-700 dark:text-green-400">
                           Connected
@@ -340,12 +430,26 @@ export default function Dashboard() {
                       </div>
                     </CardHeader>
                     <CardContent className="space-y-6">
-                      <div className="grid sm:grid-cols-3 gap-4">
+                      <div className="grid sm:grid-cols-2 xl:grid-cols-4 gap-4">
                         <div className="flex items-center space-x-3">
                           <CurrencyIcon currencyId={1} className="w-10 h-10" />
                           <div>
                             <p className="text-sm text-muted-foreground">Total Gold</p>
-                            <p className="text-2xl font-bold">{getGoldValue()}</p>
+                            <p className="text-xl font-bold"><CoinValue copper={getGoldValue()} /></p>
+                          </div>
+                        </div>
+
+                        <div className="flex items-center space-x-3">
+                          <CurrencyIcon currencyId={1} className="w-10 h-10" />
+                          <div>
+                            <p className="text-sm text-muted-foreground">Net Worth</p>
+                            {isNetWorthLoading ? (
+                              <Skeleton className="h-8 w-24" />
+                            ) : (
+                              <p className="text-xl font-bold">
+                                {netWorth ? <CoinValue copper={netWorth.total} /> : "—"}
+                              </p>
+                            )}
                           </div>
                         </div>
 
@@ -367,10 +471,12 @@ export default function Dashboard() {
                       </div>
                       
                       <div className="space-y-3">
-                        <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
-                          <span className="text-sm font-medium">Achievement Points</span>
-                          <span className="font-bold">{account.achievementPoints?.toLocaleString() || 0}</span>
-                        </div>
+                        <Link href="/achievements">
+                          <div className="flex justify-between items-center p-3 bg-muted rounded-lg cursor-pointer hover:bg-accent">
+                            <span className="text-sm font-medium">Achievement Points</span>
+                            <span className="font-bold">{account.achievementPoints?.toLocaleString() || 0}</span>
+                          </div>
+                        </Link>
                         <div className="flex justify-between items-center p-3 bg-muted rounded-lg">
                           <span className="text-sm font-medium">World vs World Rank</span>
                           <span className="font-bold">{account.wvwRank || "Unranked"}</span>
@@ -414,29 +520,58 @@ export default function Dashboard() {
                       </CardContent>
                     </Card>
                     <Card>
-                      <CardHeader>
+                      <CardHeader className="flex flex-row items-center justify-between">
                         <CardTitle className="text-lg">Trading Post</CardTitle>
+                        <Link href="/trading-post">
+                          <Button variant="ghost" size="sm">
+                            View
+                          </Button>
+                        </Link>
                       </CardHeader>
                       <CardContent className="space-y-3">
-                        <div className="flex justify-between">
-                          <span className="text-sm text-muted-foreground">Delivery Box</span>
-                          <span className="font-medium">0 items</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-sm text-muted-foreground">Transactions</span>
-                          <span className="font-medium">0/0</span>
-                        </div>
+                        {tradingPost ? (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-sm text-muted-foreground">Delivery Box</span>
+                              <span className="font-medium">
+                                <CoinValue copper={tradingPost.deliveryCoins} />, {tradingPost.deliveryItems.length} items
+                              </span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-sm text-muted-foreground">Open Orders</span>
+                              <span className="font-medium">
+                                {tradingPost.currentBuys.length} buys / {tradingPost.currentSells.length} sells
+                              </span>
+                            </div>
+                          </>
+                        ) : account.permissions.includes("tradingpost") ? (
+                          <p className="text-sm text-muted-foreground">
+                            Not synced yet. Refresh to load delivery box and orders.
+                          </p>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            Requires the Trading Post permission
+                          </p>
+                        )}
                       </CardContent>
                     </Card>
                   </div>
                 </div>
 
+                <NetWorthCard
+                  netWorth={netWorth}
+                  isLoading={isNetWorthLoading}
+                  valuation={valuation}
+                  onValuationChange={setValuation}
+                />
+
                 {/* Main Content Tabs */}
                 <Card>
                   <Tabs defaultValue="characters" className="w-full">
                     <CardHeader>
-                      <TabsList className="grid w-full grid-cols-3">
+                      <TabsList className="grid w-full grid-cols-4">
                         <TabsTrigger value="characters">Characters</TabsTrigger>
+                        <TabsTrigger value="wallet">Wallet</TabsTrigger>
                         <TabsTrigger value="storage">Bank Storage</TabsTrigger>
                         <TabsTrigger value="materials">Materials</TabsTrigger>
                       </TabsList>
@@ -478,11 +613,11 @@ export default function Dashboard() {
                                   <div className={`w-16 h-16 bg-gradient-to-br ${getProfessionColor(character.profession || "")} rounded-lg flex items-center justify-center relative overflow-hidden shadow-lg`}>
                                     <div className="absolute inset-0 bg-black/20"></div>
                                     {(() => {
-                                      const iconUrl = getProfessionIcon(character.profession || "");
+                                      const iconUrl = character.eliteSpecialization?.icon ?? professionIcon(character.profession);
                                       return iconUrl ? (
                                         <img 
                                           src={iconUrl} 
-                                          alt={`${character.profession} icon`}
+                                          alt={`${character.eliteSpecialization?.name ?? character.profession} icon`}
                                           className="h-10 w-10 relative z-10 drop-shadow-md filter brightness-110"
                                           onError={(e) => {
                                             console.log(`Failed to load icon for ${character.profession}`);
@@ -496,7 +631,11 @@ export default function Dashboard() {
                                   </div>
                                   <div className="flex-1">
                                     <h3 className="font-semibold">{character.name}</h3>
-                                    <p className="text-sm text-muted-foreground">{character.profession}</p>
+                                    <p className="text-sm text-muted-foreground">
+                                      {character.eliteSpecialization
+                                        ? `${character.eliteSpecialization.name} (${character.profession})`
+                                        : character.profession}
+                                    </p>
                                     <p className="text-xs text-muted-foreground">Level {character.level}</p>
                                   </div>
                                   <div className="text-right">
@@ -515,51 +654,41 @@ export default function Dashboard() {
                       </TabsContent>
 
                       <TabsContent value="storage" className="space-y-6 mt-0">
-                        <div className="flex items-center justify-between mb-4">
-                          <div>
-                            <h3 className="text-lg font-semibold">Bank Storage</h3>
-                            <p className="text-sm text-muted-foreground">
-                              {account.bankItems.length}/250 slots used
-                            </p>
-                          </div>
-                          <Badge variant="outline">
-                            {account.bankItems.length} items
-                          </Badge>
-                        </div>
-                        
-                        <div className="grid grid-cols-10 gap-2">
-                          {Array.from({ length: 50 }).map((_, index) => {
-                            const item = account.bankItems.find(item => item.slot === index);
-                            return (
-                              <div
-                                key={index}
-                                className="aspect-square rounded transition-colors cursor-pointer"
-                              >
-                                {item ? (
-                                  <GW2ItemIcon
-                                    itemId={item.itemId ?? undefined}
-                                    count={item.count ?? undefined}
-                                    size="md"
-                                    className="w-full h-full"
-                                  />
-                                ) : (
-                                  <div className="w-full h-full bg-muted rounded border-2 border-border" />
-                                )}
-                              </div>
-                            );
-                          })}
-                        </div>
-                        
+                        <BankTab
+                          bankItems={account.bankItems}
+                          bankSlots={account.bankSlots}
+                          highlightedSlots={highlightedBankSlots}
+                          searching={searchResults.length > 0}
+                        />
+
+                        {isSearchOpen && activeAccountId && (
+                          <ItemSearch
+                            accountId={activeAccountId}
+                            onResultsChange={setSearchResults}
+                            onCharacterSelect={handleSearchCharacterSelect}
+                          />
+                        )}
+
                         <div className="flex space-x-2 pt-4">
-                          <Button className="flex-1 bg-gw2-gold hover:bg-gw2-gold/80">
-                            <Search className="mr-2 h-4 w-4" />
-                            Search Items
+                          <Button
+                            className="flex-1 bg-gw2-gold hover:bg-gw2-gold/80"
+                            onClick={() => {
+                              if (isSearchOpen) setSearchResults([]);
+                              setIsSearchOpen(!isSearchOpen);
+                            }}
+                          >
+                            {isSearchOpen ? <X className="mr-2 h-4 w-4" /> : <Search className="mr-2 h-4 w-4" />}
+                            {isSearchOpen ? "Close Search" : "Search Items"}
                           </Button>
                         </div>
                       </TabsContent>
 
+                      <TabsContent value="wallet" className="mt-0">
+                        <WalletTab accountId={account.id} wallet={account.wallet} />
+                      </TabsContent>
+
                       <TabsContent value="materials" className="mt-0">
-                        <MaterialsTab materials={account.materials} />
+                        <MaterialsTab materials={account.materials} accountId={account.id} />
                       </TabsContent>
                     </CardContent>
                   </Tabs>
@@ -569,31 +698,17 @@ export default function Dashboard() {
                 <Card>
                   <CardHeader className="flex flex-row items-center justify-between">
                     <CardTitle>Recent Activity</CardTitle>
-                    <Button variant="ghost" size="sm">
-                      View All
-                    </Button>
+                    <Link href="/activity">
+                      <Button variant="ghost" size="sm">
+                        View All
+                      </Button>
+                    </Link>
                   </CardHeader>
                   <CardContent>
                     {account.activities.length > 0 ? (
                       <div className="space-y-4">
                         {account.activities.slice(0, 5).map((activity) => (
-                          <div key={activity.id} className="flex items-center space-x-4 p-3 bg-muted rounded-lg">
-                            <div className="w-10 h-10 bg-green-100 dark:bg-green-900/50 rounded-lg flex items-center justify-center flex-shrink-0">
-                              <Trophy className="text-green-600 dark:text-green-400 h-5 w-5" />
-                            </div>
-                            <div className="flex-1 min-w-0">
-                              <p className="text-sm font-medium truncate">{activity.description}</p>
-                              <p className="text-xs text-muted-foreground">
-                                {activity.timestamp ? new Date(activity.timestamp).toLocaleDateString() : "Recently"}
-                              </p>
-                            </div>
-                            {activity.reward && (
-                              <div className="flex items-center text-gw2-gold">
-                                <Plus className="h-3 w-3 mr-1" />
-                                <span className="text-sm font-medium">{activity.reward}</span>
-                              </div>
-                            )}
-                          </div>
+                          <ActivityItem key={activity.id} activity={activity} />
                         ))}
                       </div>
                     ) : (
@@ -616,9 +731,11 @@ export default function Dashboard() {
 
         {/* Character Modal */}
         <CharacterModal 
+          accountId={activeAccountId}
           character={selectedCharacter}
           isOpen={isCharacterModalOpen}
           onClose={() => setIsCharacterModalOpen(false)}
+          highlightedItemIds={highlightedItemIds}
         />
       </main>
     </div>
@@ -0,0 +1,164 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/loading-skeleton";
+import { ItemTooltip } from "@/components/item-tooltip";
+import { CurrencyIcon } from "@/components/currency-icon";
+import { useItemDetails } from "@/hooks/use-item-details";
+import { useTradingPost } from "@/hooks/use-trading-post";
+import { useAccounts } from "@/hooks/use-accounts";
+import { CoinValue } from "@/components/coin-value";
+import { ArrowLeft, Package } from "lucide-react";
+import type { TradingPostTransaction } from "@shared/schema";
+
+function TransactionRow({ transaction }: { transaction: TradingPostTransaction }) {
+  const { data: item } = useItemDetails(transaction.itemId);
+
+  return (
+    <div className="flex items-center space-x-4 p-3 bg-muted rounded-lg">
+      <ItemTooltip itemId={transaction.itemId} size="md" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{item?.name || `Item ${transaction.itemId}`}</p>
+        <p className="text-xs text-muted-foreground">
+          {new Date(transaction.purchased || transaction.created).toLocaleString()}
+        </p>
+      </div>
+      <div className="text-right">
+        <p className="text-sm font-medium"><CoinValue copper={transaction.price * transaction.quantity} /></p>
+        <p className="text-xs text-muted-foreground">
+          {transaction.quantity} × <CoinValue copper={transaction.price} />
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function TransactionList({ transactions, emptyText }: { transactions: TradingPostTransaction[]; emptyText: string }) {
+  if (transactions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <p>{emptyText}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {transactions.map((transaction) => (
+        <TransactionRow key={transaction.id} transaction={transaction} />
+      ))}
+    </div>
+  );
+}
+
+export default function TradingPostPage() {
+  const { activeAccountId } = useAccounts();
+  const { data: tradingPost, isLoading } = useTradingPost(activeAccountId);
+
+  const lockedInBuys = tradingPost?.currentBuys.reduce((sum, t) => sum + t.price * t.quantity, 0) ?? 0;
+  const listedInSells = tradingPost?.currentSells.reduce((sum, t) => sum + t.price * t.quantity, 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link href="/">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </Link>
+
+        {isLoading ? (
+          <Skeleton className="h-64" />
+        ) : !tradingPost ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">
+                No trading post data yet. Connect an API key with the Trading Post permission and refresh.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-3 gap-6">
+              <Card>
+                <CardContent className="p-6 flex items-center space-x-3">
+                  <CurrencyIcon currencyId={1} className="w-10 h-10" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">Locked in Buy Orders</p>
+                    <p className="text-xl font-bold"><CoinValue copper={lockedInBuys} /></p>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6 flex items-center space-x-3">
+                  <CurrencyIcon currencyId={1} className="w-10 h-10" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">Listed for Sale</p>
+                    <p className="text-xl font-bold"><CoinValue copper={listedInSells} /></p>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6 flex items-center space-x-3">
+                  <Package className="w-10 h-10 text-gw2-gold" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">Awaiting Pickup</p>
+                    <p className="text-xl font-bold"><CoinValue copper={tradingPost.deliveryCoins} /></p>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {tradingPost.deliveryItems.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <span>Delivery Box</span>
+                    <Badge variant="secondary">{tradingPost.deliveryItems.length} items</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-2">
+                    {tradingPost.deliveryItems.map((item) => (
+                      <ItemTooltip key={item.itemId} itemId={item.itemId} count={item.count} size="lg" />
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <Tabs defaultValue="buys" className="w-full">
+                <CardHeader>
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="buys">Buying ({tradingPost.currentBuys.length})</TabsTrigger>
+                    <TabsTrigger value="sells">Selling ({tradingPost.currentSells.length})</TabsTrigger>
+                    <TabsTrigger value="bought">Bought</TabsTrigger>
+                    <TabsTrigger value="sold">Sold</TabsTrigger>
+                  </TabsList>
+                </CardHeader>
+                <CardContent>
+                  <TabsContent value="buys" className="mt-0">
+                    <TransactionList transactions={tradingPost.currentBuys} emptyText="No open buy orders" />
+                  </TabsContent>
+                  <TabsContent value="sells" className="mt-0">
+                    <TransactionList transactions={tradingPost.currentSells} emptyText="No open sell listings" />
+                  </TabsContent>
+                  <TabsContent value="bought" className="mt-0">
+                    <TransactionList transactions={tradingPost.historyBuys} emptyText="Nothing bought in the last 90 days" />
+                  </TabsContent>
+                  <TabsContent value="sold" className="mt-0">
+                    <TransactionList transactions={tradingPost.historySells} emptyText="Nothing sold in the last 90 days" />
+                  </TabsContent>
+                </CardContent>
+              </Tabs>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -6,4 +6,207 @@ export interface GW2Item {
   rarity: string;
   level: number;
   type: string;
+  flags?: string[];
+  details?: Record<string, unknown>;
+}
+
+export interface GW2Profession {
+  id: string;
+  name: string;
+  icon: string;
+  icon_big: string;
+}
+
+export interface GW2ItemStack {
+  id: number;
+  count: number;
+  charges?: number;
+  skin?: number;
+  upgrades?: number[];
+  infusions?: number[];
+  binding?: "Account" | "Character";
+  bound_to?: string;
+}
+
+export interface GW2Bag {
+  id: number;
+  size: number;
+  inventory: (GW2ItemStack | null)[];
+}
+
+export interface ItemSummary {
+  id: number;
+  name: string;
+  icon: string;
+  rarity: string;
+}
+
+export interface DyeChannel {
+  id: number;
+  name: string;
+  rgb: [number, number, number];
+}
+
+export interface ResolvedEquipment {
+  slot: string;
+  item: ItemSummary;
+  skin: ItemSummary | null;
+  upgrades: ItemSummary[];
+  infusions: ItemSummary[];
+  stats: { id: number; name: string; attributes: Record<string, number> } | null;
+  dyes: (DyeChannel | null)[];
+  binding: "Account" | "Character" | null;
+  boundTo: string | null;
+}
+
+export interface ResolvedEquipmentTab {
+  tab: number;
+  name: string;
+  isActive: boolean;
+  equipment: ResolvedEquipment[];
+}
+
+export interface BuildIcon {
+  id: number;
+  name: string;
+  icon: string;
+  description: string | null;
+}
+
+export interface ResolvedSpecialization extends BuildIcon {
+  elite: boolean;
+  background: string;
+  traits: (BuildIcon | null)[];
+  majorTraits: BuildIcon[][];
+}
+
+export interface ResolvedSkillBar {
+  heal: BuildIcon | null;
+  utilities: (BuildIcon | null)[];
+  elite: BuildIcon | null;
+}
+
+export interface ResolvedBuildTab {
+  tab: number;
+  name: string;
+  isActive: boolean;
+  profession: string;
+  specializations: (ResolvedSpecialization | null)[];
+  skills: ResolvedSkillBar;
+  aquaticSkills: ResolvedSkillBar;
+}
+
+// Response of /api/accounts/:accountId/characters/:name
+// Each section is null when it failed to load, with the reason in errors
+export interface CharacterDetails {
+  equipment: ResolvedEquipment[] | null;
+  buildTabs: ResolvedBuildTab[] | null;
+  equipmentTabs: ResolvedEquipmentTab[] | null;
+  // A null bag is an unlocked bag slot with no bag in it
+  inventory: { bags: (GW2Bag | null)[] } | null;
+  errors: Partial<Record<"equipment" | "buildTabs" | "equipmentTabs" | "inventory", string>>;
+}
+
+export type Valuation = "buy" | "sell" | "vendor";
+
+export interface NetWorthItem {
+  itemId: number;
+  name: string;
+  icon: string;
+  count: number;
+  unitValue: number;
+  value: number;
+  source: "tradingpost" | "vendor" | "none";
+  accountBound: boolean;
+  locations: string[];
+}
+
+export interface NetWorth {
+  valuation: Valuation;
+  total: number;
+  byLocation: { location: string; value: number }[];
+  items: NetWorthItem[];
+}
+
+export type ItemLocation =
+  | { type: "bank"; slot: number }
+  | { type: "materials"; category: number }
+  | { type: "shared"; slot: number }
+  | { type: "character"; character: string; bag: number; slot: number };
+
+export interface ItemSearchResult {
+  itemId: number;
+  name: string;
+  icon: string;
+  rarity: string;
+  type: string;
+  totalCount: number;
+  stacks: { location: ItemLocation; count: number }[];
+}
+
+export interface AchievementCategorySummary {
+  id: number;
+  name: string;
+  icon: string;
+  order: number;
+  total: number;
+  done: number;
+}
+
+export interface AchievementGroupSummary {
+  id: string;
+  name: string;
+  order: number;
+  categories: AchievementCategorySummary[];
+}
+
+export interface AchievementProgress {
+  id: number;
+  name: string;
+  description: string;
+  requirement: string;
+  icon: string | null;
+  flags: string[];
+  tiers: { count: number; points: number; done: boolean }[];
+  bits: { type: "Text" | "Item" | "Minipet" | "Skin"; id?: number; text?: string; done: boolean }[];
+  rewards: { type: "Coins" | "Item" | "Mastery" | "Title"; id?: number; count?: number; region?: string }[];
+  current: number;
+  max: number;
+  done: boolean;
+  repeated: number;
+  points: number;
+  earnedPoints: number;
+}
+
+export interface AchievementOverview {
+  groups: AchievementGroupSummary[];
+  closestToDone: AchievementProgress[];
+}
+
+export interface GW2Currency {
+  id: number;
+  name: string;
+  description: string;
+  icon: string;
+  order: number;
+}
+
+export interface MaterialSlot {
+  itemId: number;
+  name: string;
+  icon: string;
+  rarity: string;
+  price: { buy: number; sell: number } | null;
+}
+
+export interface MaterialCategory {
+  id: number;
+  name: string;
+  order: number;
+  items: MaterialSlot[];
+}
+
+export interface WalletHistoryPoint {
+  takenAt: string;
+  wallet: { currencyId: number; value: number }[];
 }
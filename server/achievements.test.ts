@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AchievementDefinitionCache } from "./achievements";
+import { MemStorage } from "./storage";
+import { KeyVault } from "./keyvault";
+import { knownIdsUpTo, requestedIds, standIn } from "./test-gw2";
+
+const HOUR = 60 * 60 * 1000;
+
+// Knows achievements 1-10; anything else is unknown upstream
+function cacheWithStandIn() {
+  const { client, requests } = standIn(
+    knownIdsUpTo(10, id => ({ id, name: `Achievement ${id}`, type: "Default", flags: [], tiers: [] })),
+  );
+  const cache = new AchievementDefinitionCache(new MemStorage(new KeyVault(["test-secret"])), client, HOUR);
+  return { cache, requested: () => requests.map(r => requestedIds(r.url)) };
+}
+
+describe("AchievementDefinitionCache", () => {
+  it("serves stored definitions without going upstream again", async () => {
+    const { cache, requested } = cacheWithStandIn();
+
+    await cache.get([1, 2]);
+    const definitions = await cache.get([2, 1]);
+
+    assert.deepEqual(definitions.map(d => d.id).sort(), [1, 2]);
+    assert.deepEqual(requested(), [[1, 2]]);
+  });
+
+  it("skips unknown ids instead of failing the lookup", async () => {
+    const { cache } = cacheWithStandIn();
+
+    assert.deepEqual((await cache.get([1, 500])).map(d => d.id), [1]);
+    assert.deepEqual(await cache.get([501, 502]), []);
+  });
+
+  it("remembers unknown ids", async () => {
+    const { cache, requested } = cacheWithStandIn();
+
+    await cache.get([1, 500]);
+    await cache.get([1, 500]);
+    await cache.get([500, 3]);
+
+    assert.deepEqual(requested(), [[1, 500], [3]]);
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  gw2Client,
+  type Gw2Client,
+  type GW2Achievement,
+  type GW2AchievementBit,
+  type GW2AchievementCategory,
+  type GW2AchievementGroup,
+  type GW2AchievementReward,
+  type GW2AccountAchievement,
+} from "./gw2";
+import { storage, type IStorage } from "./storage";
+import type { AchievementDefinition } from "./schema";
+
+const CLOSEST_TO_DONE_LIMIT = 20;
+const DEFAULT_DEFINITION_TTL_HOURS = 24 * 7;
+
+export interface AchievementCategorySummary {
+  id: number;
+  name: string;
+  icon: string;
+  order: number;
+  total: number;
+  done: number;
+}
+
+export interface AchievementGroupSummary {
+  id: string;
+  name: string;
+  order: number;
+  categories: AchievementCategorySummary[];
+}
+
+export interface AchievementProgress {
+  id: number;
+  name: string;
+  description: string;
+  requirement: string;
+  icon: string | null;
+  flags: string[];
+  tiers: { count: number; points: number; done: boolean }[];
+  bits: (GW2AchievementBit & { done: boolean })[];
+  rewards: GW2AchievementReward[];
+  current: number;
+  max: number;
+  done: boolean;
+  repeated: number;
+  points: number;
+  earnedPoints: number;
+}
+
+export interface AchievementOverview {
+  groups: AchievementGroupSummary[];
+  closestToDone: AchievementProgress[];
+}
+
+interface AchievementStructure {
+  groups: GW2AchievementGroup[];
+  categories: Map<number, GW2AchievementCategory>;
+  fetchedAt: number;
+}
+
+function toDefinition(achievement: GW2Achievement, fetchedAt: Date): AchievementDefinition {
+  return {
+    id: achievement.id,
+    name: achievement.name,
+    description: achievement.description ?? "",
+    requirement: achievement.requirement ?? "",
+    icon: achievement.icon ?? null,
+    type: achievement.type,
+    flags: achievement.flags || [],
+    tiers: achievement.tiers || [],
+    bits: achievement.bits ?? null,
+    rewards: achievement.rewards ?? null,
+    pointCap: achievement.point_cap ?? null,
+    fetchedAt,
+  };
+}
+
+// Achievement definitions served from storage; only missing or expired ids go upstream.
+// Ids the API doesn't know are remembered for the same ttl so they aren't asked for every sync.
+export class AchievementDefinitionCache {
+  // Unknown id -> when it was last looked up
+  private notFound = new Map<number, number>();
+
+  constructor(private storage: IStorage, private client: Gw2Client, private ttlMs: number) {}
+
+  async get(ids: number[]): Promise<AchievementDefinition[]> {
+    const expiredBefore = Date.now() - this.ttlMs;
+    const uniqueIds = Array.from(new Set(ids)).filter(id => (this.notFound.get(id) ?? 0) < expiredBefore);
+    const cached = await this.storage.getAchievementDefinitions(uniqueIds);
+
+    const fresh = cached.filter(definition => definition.fetchedAt.getTime() >= expiredBefore);
+    const freshIds = new Set(fresh.map(definition => definition.id));
+    const missing = uniqueIds.filter(id => !freshIds.has(id));
+    if (missing.length === 0) return fresh;
+
+    const fetchedAt = new Date();
+    const fetched = (await this.client.achievements(missing)).map(a => toDefinition(a, fetchedAt));
+    await this.storage.saveAchievementDefinitions(fetched);
+
+    const fetchedIds = new Set(fetched.map(definition => definition.id));
+    missing.filter(id => !fetchedIds.has(id)).forEach(id => this.notFound.set(id, fetchedAt.getTime()));
+    return [...fresh, ...fetched];
+  }
+}
+
+// Merges an achievement definition with the account's progress on it
+function toProgress(definition: AchievementDefinition, progress: GW2AccountAchievement | undefined): AchievementProgress {
+  const done = progress?.done ?? false;
+  const max = progress?.max ?? definition.tiers[definition.tiers.length - 1]?.count ?? 0;
+  const current = done ? max : progress?.current ?? 0;
+  const completedBits = new Set(progress?.bits ?? []);
+  const tiers = definition.tiers.map(tier => ({ ...tier, done: done || current >= tier.count }));
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    requirement: definition.requirement,
+    icon: definition.icon,
+    flags: definition.flags,
+    tiers,
+    bits: (definition.bits ?? []).map((bit, index) => ({ ...bit, done: done || completedBits.has(index) })),
+    rewards: definition.rewards ?? [],
+    current,
+    max,
+    done,
+    repeated: progress?.repeated ?? 0,
+    points: definition.tiers.reduce((sum, tier) => sum + tier.points, 0),
+    earnedPoints: tiers.reduce((sum, tier) => sum + (tier.done ? tier.points : 0), 0),
+  };
+}
+
+// Remaining progress per point still on offer; lower is closer to done
+function closenessScore(achievement: AchievementProgress) {
+  const remainingPoints = achievement.points - achievement.earnedPoints;
+  return (achievement.max - achievement.current) / remainingPoints;
+}
+
+// Achievement browser data: group/category structure plus the account's progress
+export class AchievementService {
+  private structure: AchievementStructure | null = null;
+
+  constructor(
+    private client: Gw2Client,
+    private definitions: AchievementDefinitionCache,
+    private structureTtlMs = 24 * 60 * 60 * 1000,
+  ) {}
+
+  async overview(apiKey: string): Promise<AchievementOverview> {
+    const [structure, progress] = await Promise.all([this.getStructure(), this.client.accountAchievements(apiKey)]);
+    const progressById = new Map(progress.map(p => [p.id, p]));
+
+    const groups = structure.groups
+      .map(group => ({
+        id: group.id,
+        name: group.name,
+        order: group.order,
+        categories: group.categories
+          .flatMap(id => structure.categories.get(id) ?? [])
+          .map(category => ({
+            id: category.id,
+            name: category.name,
+            icon: category.icon,
+            order: category.order,
+            total: category.achievements.length,
+            done: category.achievements.filter(id => progressById.get(id)?.done).length,
+          }))
+          .sort((a, b) => a.order - b.order),
+      }))
+      .sort((a, b) => a.order - b.order);
+
+    // Only achievements still listed in a category; retired ones linger in account progress
+    const listed = new Set(Array.from(structure.categories.values()).flatMap(c => c.achievements));
+    const started = progress.filter(p => !p.done && listed.has(p.id) && (p.current ?? 0) > 0);
+    const definitions = await this.definitions.get(started.map(p => p.id));
+
+    const closestToDone = definitions
+      .map(definition => toProgress(definition, progressById.get(definition.id)))
+      .filter(a => a.max > a.current && a.points > a.earnedPoints)
+      .sort((a, b) => closenessScore(a) - closenessScore(b))
+      .slice(0, CLOSEST_TO_DONE_LIMIT);
+
+    return { groups, closestToDone };
+  }
+
+  async category(apiKey: string, categoryId: number): Promise<AchievementProgress[] | undefined> {
+    const structure = await this.getStructure();
+    const category = structure.categories.get(categoryId);
+    if (!category) return undefined;
+
+    const [definitions, progress] = await Promise.all([
+      this.definitions.get(category.achievements),
+      this.client.accountAchievements(apiKey),
+    ]);
+    const progressById = new Map(progress.map(p => [p.id, p]));
+    const order = new Map(category.achievements.map((id, index) => [id, index]));
+
+    return definitions
+      .map(definition => toProgress(definition, progressById.get(definition.id)))
+      .sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+  }
+
+  private async getStructure(): Promise<AchievementStructure> {
+    if (this.structure && Date.now() - this.structure.fetchedAt < this.structureTtlMs) {
+      return this.structure;
+    }
+
+    const [groups, categories] = await Promise.all([
+      this.client.achievementGroups(),
+      this.client.achievementCategories(),
+    ]);
+    this.structure = {
+      groups,
+      categories: new Map(categories.map(c => [c.id, c])),
+      fetchedAt: Date.now(),
+    };
+    return this.structure;
+  }
+}
+
+export const achievementDefinitions = new AchievementDefinitionCache(
+  storage,
+  gw2Client,
+  parseFloat(process.env.ACHIEVEMENT_CACHE_TTL_HOURS || String(DEFAULT_DEFINITION_TTL_HOURS)) * 60 * 60 * 1000,
+);
+
+export const achievementService = new AchievementService(gw2Client, achievementDefinitions);
@@ -0,0 +1,95 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ActivityGenerator } from "./activity";
+import { MemStorage } from "./storage";
+import { KeyVault } from "./keyvault";
+import { json, requestedIds, standIn, type RecordedRequest } from "./test-gw2";
+import { ItemCatalog } from "./catalog";
+import { AchievementDefinitionCache } from "./achievements";
+
+const HOUR = 60 * 60 * 1000;
+
+const CURRENCIES = [
+  { id: 1, name: "Coin" },
+  { id: 2, name: "Karma" },
+  { id: 3, name: "Laurel" },
+  { id: 4, name: "Gem" },
+  { id: 7, name: "Fractal Relic" },
+];
+
+const empty = { wallet: [], materials: [], characters: [], completedAchievements: [] };
+
+describe("ActivityGenerator", () => {
+  let generator: ActivityGenerator;
+  let requests: RecordedRequest[];
+  const requested = () => requests.map(r => r.url.pathname);
+
+  beforeEach(async () => {
+    const { client, requests: recorded } = standIn(url => {
+      if (url.pathname === "/v2/currencies") return json(CURRENCIES);
+      const ids = requestedIds(url);
+      if (url.pathname === "/v2/items") return json(ids.map(id => ({ id, name: `Item ${id}`, flags: [] })));
+      return json(ids.map(id => ({ id, name: `Achievement ${id}`, type: "Default", flags: [], tiers: [{ count: 1, points: 5 }] })));
+    });
+    requests = recorded;
+    const storage = new MemStorage(new KeyVault(["test-secret"]));
+    generator = new ActivityGenerator(
+      client,
+      new ItemCatalog(storage, client, HOUR),
+      new AchievementDefinitionCache(storage, client, HOUR),
+    );
+  });
+
+  it("reports gold on its own and rolls the other currencies into one activity", async () => {
+    const activities = await generator.generate(
+      { ...empty, wallet: [{ currencyId: 1, value: 10000 }, { currencyId: 2, value: 100 }] },
+      {
+        ...empty,
+        wallet: [
+          { currencyId: 1, value: 15000 },
+          { currencyId: 2, value: 1100 },
+          { currencyId: 3, value: 2 },
+          { currencyId: 4, value: 40 },
+          { currencyId: 7, value: 5 },
+        ],
+      },
+    );
+
+    assert.deepEqual(activities.map(a => a.type), ["gold", "currency"]);
+    assert.equal(activities[0].amount, 5000);
+    assert.equal(activities[1].description, "+1,000 Karma, +40 Gem, +5 Fractal Relic and 1 more");
+  });
+
+  it("rolls material changes into one activity", async () => {
+    const activities = await generator.generate(
+      { ...empty, materials: [{ itemId: 19697, count: 10 }] },
+      { ...empty, materials: [{ itemId: 19697, count: 5 }, { itemId: 19721, count: 3 }] },
+    );
+
+    assert.equal(activities.length, 1);
+    assert.equal(activities[0].type, "material");
+    assert.equal(activities[0].description, "-5 Item 19697, +3 Item 19721");
+  });
+
+  it("does not diff sections missing from either snapshot", async () => {
+    const activities = await generator.generate(
+      { wallet: null, materials: [{ itemId: 19697, count: 10 }], characters: null, completedAchievements: null },
+      { wallet: [{ currencyId: 1, value: 100 }], materials: null, characters: [{ name: "Alpha", level: 80 }], completedAchievements: [1] },
+    );
+
+    assert.deepEqual(activities, []);
+    assert.deepEqual(requested(), []);
+  });
+
+  it("names completed achievements from the definition cache", async () => {
+    const previous = { ...empty, completedAchievements: [1] };
+    const current = { ...empty, completedAchievements: [1, 2] };
+
+    const [activity] = await generator.generate(previous, current);
+    await generator.generate(previous, current);
+
+    assert.equal(activity.description, "Achievement 2 completed");
+    assert.equal(activity.reward, "5 AP");
+    assert.deepEqual(requested(), ["/v2/achievements"]);
+  });
+});
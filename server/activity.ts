@@ -0,0 +1,133 @@
+import { formatCoins } from "../shared/coins";
+import type { Gw2Client } from "./gw2";
+import type { ItemCatalog } from "./catalog";
+import type { AchievementDefinitionCache } from "./achievements";
+import type { AccountSnapshot, Activity, ActivityType } from "./schema";
+
+const GOLD_CURRENCY_ID = 1;
+// Changes named in an aggregated activity before the rest are counted
+const SUMMARY_LIMIT = 3;
+
+export type NewActivity = Omit<Activity, 'id' | 'timestamp' | 'accountId'> & { type: ActivityType };
+
+function signed(n: number) {
+  return `${n > 0 ? "+" : "-"}${Math.abs(n).toLocaleString()}`;
+}
+
+// "+250 Iron Ore, -5 Mithril Ore and 4 more", largest changes first
+function summarize(deltas: [number, number][], name: (id: number) => string) {
+  const named = deltas
+    .slice()
+    .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+    .slice(0, SUMMARY_LIMIT)
+    .map(([id, delta]) => `${signed(delta)} ${name(id)}`)
+    .join(", ");
+  const rest = deltas.length - SUMMARY_LIMIT;
+  return rest > 0 ? `${named} and ${rest} more` : named;
+}
+
+// Changes in `current` relative to `previous`, keyed by id
+function countDeltas<T>(previous: T[], current: T[], id: (t: T) => number, count: (t: T) => number) {
+  const deltas = new Map<number, number>();
+  previous.forEach(p => deltas.set(id(p), (deltas.get(id(p)) || 0) - count(p)));
+  current.forEach(c => deltas.set(id(c), (deltas.get(id(c)) || 0) + count(c)));
+  return Array.from(deltas.entries()).filter(([, delta]) => delta !== 0);
+}
+
+type SnapshotState = Pick<AccountSnapshot, 'wallet' | 'materials' | 'characters' | 'completedAchievements'>;
+
+// Turns the difference between two consecutive sync snapshots into activity entries.
+// Sections missing (null) from either snapshot are not compared. Currency and
+// material changes are rolled up into one activity each per sync.
+export class ActivityGenerator {
+  constructor(
+    private client: Gw2Client,
+    private catalog: ItemCatalog,
+    private achievementDefinitions: AchievementDefinitionCache,
+  ) {}
+
+  async generate(previous: SnapshotState, current: SnapshotState): Promise<NewActivity[]> {
+    const activities: NewActivity[] = [];
+
+    const walletDeltas = previous.wallet && current.wallet
+      ? countDeltas(previous.wallet, current.wallet, w => w.currencyId, w => w.value)
+      : [];
+    const goldDelta = walletDeltas.find(([id]) => id === GOLD_CURRENCY_ID);
+    if (goldDelta) {
+      const [, delta] = goldDelta;
+      activities.push({
+        type: "gold",
+        description: `${delta > 0 ? "Gained" : "Spent"} ${formatCoins(Math.abs(delta))}`,
+        reward: null,
+        amount: delta,
+      });
+    }
+
+    const currencyDeltas = walletDeltas.filter(([id]) => id !== GOLD_CURRENCY_ID);
+    if (currencyDeltas.length > 0) {
+      const currencies = await this.client.currencies();
+      const names = new Map(currencies.map(c => [c.id, c.name]));
+      activities.push({
+        type: "currency",
+        description: summarize(currencyDeltas, id => names.get(id) || `Currency ${id}`),
+        reward: null,
+        amount: null,
+      });
+    }
+
+    const materialDeltas = previous.materials && current.materials
+      ? countDeltas(previous.materials, current.materials, m => m.itemId, m => m.count)
+      : [];
+    if (materialDeltas.length > 0) {
+      const items = await this.catalog.getItems(materialDeltas.map(([id]) => id));
+      const names = new Map(items.map(i => [i.id, i.name]));
+      activities.push({
+        type: "material",
+        description: summarize(materialDeltas, id => names.get(id) || `Item ${id}`),
+        reward: null,
+        amount: null,
+      });
+    }
+
+    if (previous.characters && current.characters) {
+      const previousLevels = new Map(previous.characters.map(c => [c.name, c.level]));
+      current.characters.forEach(character => {
+        const previousLevel = previousLevels.get(character.name);
+        if (previousLevel === undefined) {
+          activities.push({
+            type: "character",
+            description: `New character ${character.name} created`,
+            reward: null,
+            amount: null,
+          });
+        } else if (character.level > previousLevel) {
+          activities.push({
+            type: "level",
+            description: `${character.name} reached level ${character.level}`,
+            reward: null,
+            amount: null,
+          });
+        }
+      });
+    }
+
+    if (previous.completedAchievements && current.completedAchievements) {
+      const alreadyDone = new Set(previous.completedAchievements);
+      const newlyDone = current.completedAchievements.filter(id => !alreadyDone.has(id));
+      if (newlyDone.length > 0) {
+        const achievements = await this.achievementDefinitions.get(newlyDone);
+        achievements.forEach(achievement => {
+          const points = achievement.tiers.reduce((sum, tier) => sum + tier.points, 0);
+          activities.push({
+            type: "achievement",
+            description: `${achievement.name} completed`,
+            reward: points > 0 ? `${points} AP` : null,
+            amount: null,
+          });
+        });
+      }
+    }
+
+    return activities;
+  }
+}
@@ -0,0 +1,106 @@
+import { gw2Client, type Gw2Client, type GW2BuildTab, type GW2SkillBar } from "./gw2";
+
+export interface BuildIcon {
+  id: number;
+  name: string;
+  icon: string;
+  description: string | null;
+}
+
+export interface ResolvedSpecialization extends BuildIcon {
+  elite: boolean;
+  background: string;
+  // The three chosen major traits, top to bottom; null when a tier is unset
+  traits: (BuildIcon | null)[];
+  // Every major trait of the line, three tiers of three options in in-game order
+  majorTraits: BuildIcon[][];
+}
+
+export interface ResolvedSkillBar {
+  heal: BuildIcon | null;
+  utilities: (BuildIcon | null)[];
+  elite: BuildIcon | null;
+}
+
+export interface ResolvedBuildTab {
+  tab: number;
+  name: string;
+  isActive: boolean;
+  profession: string;
+  // Always three lines; null for an empty line
+  specializations: (ResolvedSpecialization | null)[];
+  skills: ResolvedSkillBar;
+  aquaticSkills: ResolvedSkillBar;
+}
+
+const toIcon = (entry: { id: number; name: string; icon?: string; description?: string }): BuildIcon => ({
+  id: entry.id,
+  name: entry.name,
+  icon: entry.icon ?? "",
+  description: entry.description ?? null,
+});
+
+const skillIds = (bar: GW2SkillBar) => [bar.heal, ...bar.utilities, bar.elite].filter((id): id is number => id !== null);
+
+// Resolves build template ids into specialization, trait and skill names and icons
+export class BuildService {
+  constructor(private client: Gw2Client) {}
+
+  async resolve(tabs: GW2BuildTab[]): Promise<ResolvedBuildTab[]> {
+    const lines = tabs.flatMap(tab => tab.build.specializations);
+    const specIds = lines.flatMap(line => line.id ?? []);
+    const allSkillIds = tabs.flatMap(tab => [...skillIds(tab.build.skills), ...skillIds(tab.build.aquatic_skills)]);
+
+    const [specs, skills] = await Promise.all([
+      specIds.length > 0 ? this.client.specializations(specIds) : [],
+      allSkillIds.length > 0 ? this.client.skills(allSkillIds) : [],
+    ]);
+    const specsById = new Map(specs.map(spec => [spec.id, spec]));
+
+    // The chosen traits are always among the majors of their line
+    const traitIds = specs.flatMap(spec => spec.major_traits);
+    const traits = traitIds.length > 0 ? await this.client.traits(traitIds) : [];
+    const traitsById = new Map(traits.map(trait => [trait.id, trait]));
+    const trait = (id: number | null) => {
+      const found = id !== null ? traitsById.get(id) : undefined;
+      return found ? toIcon(found) : null;
+    };
+    const majorTraits = (ids: number[]) => [1, 2, 3].map(tier =>
+      ids
+        .flatMap(id => traitsById.get(id) ?? [])
+        .filter(t => t.tier === tier)
+        .sort((a, b) => a.order - b.order)
+        .map(toIcon)
+    );
+    const skillsById = new Map(skills.map(skill => [skill.id, toIcon(skill)]));
+
+    const skill = (id: number | null) => (id !== null ? skillsById.get(id) ?? null : null);
+    const skillBar = (bar: GW2SkillBar): ResolvedSkillBar => ({
+      heal: skill(bar.heal),
+      utilities: bar.utilities.map(skill),
+      elite: skill(bar.elite),
+    });
+
+    return tabs.map(({ tab, is_active, build }) => ({
+      tab,
+      name: build.name,
+      isActive: is_active,
+      profession: build.profession,
+      specializations: build.specializations.map(line => {
+        const spec = line.id !== null ? specsById.get(line.id) : undefined;
+        if (!spec) return null;
+        return {
+          ...toIcon(spec),
+          elite: spec.elite,
+          background: spec.background,
+          traits: line.traits.map(trait),
+          majorTraits: majorTraits(spec.major_traits),
+        };
+      }),
+      skills: skillBar(build.skills),
+      aquaticSkills: skillBar(build.aquatic_skills),
+    }));
+  }
+}
+
+export const buildService = new BuildService(gw2Client);
@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ItemCatalog } from "./catalog";
+import { MemStorage } from "./storage";
+import { KeyVault } from "./keyvault";
+import { knownIdsUpTo, requestedIds, standIn } from "./test-gw2";
+
+const HOUR = 60 * 60 * 1000;
+
+// Knows items 1-10; anything else is unknown upstream
+function catalogWithStandIn() {
+  const { client, requests } = standIn(
+    knownIdsUpTo(10, id => ({ id, name: `Item ${id}`, rarity: "Fine", type: "Trophy", level: 0, flags: [] })),
+  );
+  const catalog = new ItemCatalog(new MemStorage(new KeyVault(["test-secret"])), client, HOUR);
+  return { catalog, requested: () => requests.map(r => requestedIds(r.url)) };
+}
+
+describe("ItemCatalog", () => {
+  it("serves stored items without going upstream again", async () => {
+    const { catalog, requested } = catalogWithStandIn();
+
+    await catalog.getItems([1, 2]);
+    const items = await catalog.getItems([2, 1]);
+
+    assert.deepEqual(items.map(item => item.id).sort(), [1, 2]);
+    assert.deepEqual(requested(), [[1, 2]]);
+  });
+
+  it("skips unknown ids and remembers them", async () => {
+    const { catalog, requested } = catalogWithStandIn();
+
+    assert.deepEqual((await catalog.getItems([1, 500])).map(item => item.id), [1]);
+    assert.deepEqual(await catalog.getItems([501, 502]), []);
+    await catalog.getItems([500, 501, 3]);
+
+    assert.deepEqual(requested(), [[1, 500], [501, 502], [3]]);
+  });
+});
@@ -0,0 +1,114 @@
+import { gw2Client, type Gw2Client, type GW2Item } from "./gw2";
+import { storage, type IStorage } from "./storage";
+import { log } from "./logger";
+import type { CatalogItem } from "./schema";
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+const REFRESH_BATCH_SIZE = 1000;
+
+function toCatalogItem(item: GW2Item, language: string, fetchedAt: Date): CatalogItem {
+  return {
+    id: item.id,
+    language,
+    name: item.name,
+    description: item.description ?? null,
+    icon: item.icon ?? null,
+    rarity: item.rarity ?? null,
+    type: item.type ?? null,
+    level: item.level ?? null,
+    vendorValue: item.vendor_value ?? null,
+    flags: item.flags || [],
+    details: item.details ?? null,
+    fetchedAt,
+  };
+}
+
+function toGw2Item(item: CatalogItem): GW2Item {
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description ?? undefined,
+    icon: item.icon ?? "",
+    rarity: item.rarity ?? "Basic",
+    type: item.type ?? "",
+    level: item.level ?? 0,
+    vendor_value: item.vendorValue ?? 0,
+    flags: item.flags,
+    details: item.details ?? undefined,
+  };
+}
+
+// Item metadata served from storage first; only missing or expired ids go upstream.
+// Ids the API doesn't know are remembered for the same ttl so they aren't asked for again.
+export class ItemCatalog {
+  private refreshTimer: NodeJS.Timeout | null = null;
+  // Unknown id -> when it was last looked up
+  private notFound = new Map<number, number>();
+
+  constructor(private storage: IStorage, private client: Gw2Client, private ttlMs: number) {}
+
+  async getItems(ids: number[], language = "en"): Promise<GW2Item[]> {
+    const expiredBefore = Date.now() - this.ttlMs;
+    const uniqueIds = Array.from(new Set(ids)).filter(id => (this.notFound.get(id) ?? 0) < expiredBefore);
+    const cached = await this.storage.getCatalogItems(uniqueIds, language);
+
+    const fresh = cached.filter(item => item.fetchedAt.getTime() >= expiredBefore);
+    const freshIds = new Set(fresh.map(item => item.id));
+    const missing = uniqueIds.filter(id => !freshIds.has(id));
+
+    if (missing.length === 0) return fresh.map(toGw2Item);
+
+    const fetched = await this.fetchAndStore(missing, language);
+    return [...fresh.map(toGw2Item), ...fetched];
+  }
+
+  async getItem(id: number, language = "en"): Promise<GW2Item | undefined> {
+    const [item] = await this.getItems([id], language);
+    return item;
+  }
+
+  // Re-fetches expired entries a batch at a time so patched items pick up new data
+  async refreshStale(): Promise<number> {
+    const stale = await this.storage.getStaleCatalogItems(new Date(Date.now() - this.ttlMs), REFRESH_BATCH_SIZE);
+    const byLanguage = new Map<string, number[]>();
+    stale.forEach(({ id, language }) => byLanguage.set(language, [...(byLanguage.get(language) || []), id]));
+
+    for (const [language, ids] of Array.from(byLanguage.entries())) {
+      await this.fetchAndStore(ids, language);
+    }
+    return stale.length;
+  }
+
+  startRefreshJob(intervalMs = 60 * 60 * 1000) {
+    if (this.refreshTimer) return;
+    this.refreshTimer = setInterval(async () => {
+      try {
+        const refreshed = await this.refreshStale();
+        if (refreshed > 0) log(`Refreshed ${refreshed} cached items`, "catalog");
+      } catch (error) {
+        console.error("Item catalog refresh failed:", error);
+      }
+    }, intervalMs);
+  }
+
+  stopRefreshJob() {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  private async fetchAndStore(ids: number[], language: string): Promise<GW2Item[]> {
+    const items = await this.client.items(ids, language);
+    const fetchedAt = new Date();
+    await this.storage.saveCatalogItems(items.map(item => toCatalogItem(item, language, fetchedAt)));
+
+    const fetchedIds = new Set(items.map(item => item.id));
+    ids.filter(id => !fetchedIds.has(id)).forEach(id => this.notFound.set(id, fetchedAt.getTime()));
+    return items;
+  }
+}
+
+export const itemCatalog = new ItemCatalog(
+  storage,
+  gw2Client,
+  parseFloat(process.env.ITEM_CACHE_TTL_HOURS || String(DEFAULT_TTL_HOURS)) * 60 * 60 * 1000,
+);
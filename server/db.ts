@@ -0,0 +1,20 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "./schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Postgres-backed drizzle instance works here, so tests can hand DbStorage
+// a node-postgres or pg-mem database instead of the Neon pool.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDatabase(connectionString: string): Database {
+  const pool = new Pool({
+    connectionString,
+    max: parseInt(process.env.DB_POOL_MAX || '20', 10),
+  });
+
+  return drizzle({ client: pool, schema });
+}
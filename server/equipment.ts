@@ -0,0 +1,124 @@
+import { gw2Client, type Gw2Client, type GW2EquipmentItem, type GW2EquipmentTab, type GW2Item } from "./gw2";
+import { itemCatalog, type ItemCatalog } from "./catalog";
+
+export interface ItemSummary {
+  id: number;
+  name: string;
+  icon: string;
+  rarity: string;
+}
+
+export interface EquipmentStats {
+  id: number;
+  name: string;
+  attributes: Record<string, number>;
+}
+
+export interface DyeChannel {
+  id: number;
+  name: string;
+  rgb: [number, number, number];
+}
+
+export interface ResolvedEquipment {
+  slot: string;
+  item: ItemSummary;
+  skin: ItemSummary | null;
+  upgrades: ItemSummary[];
+  infusions: ItemSummary[];
+  stats: EquipmentStats | null;
+  // One entry per dye channel; null channels are undyed
+  dyes: (DyeChannel | null)[];
+  binding: "Account" | "Character" | null;
+  boundTo: string | null;
+}
+
+export interface ResolvedEquipmentTab {
+  tab: number;
+  name: string;
+  isActive: boolean;
+  equipment: ResolvedEquipment[];
+}
+
+const summarize = (item: { id: number; name: string; icon?: string; rarity: string }): ItemSummary => ({
+  id: item.id,
+  name: item.name,
+  icon: item.icon ?? "",
+  rarity: item.rarity,
+});
+
+type InfixUpgrade = { id: number; attributes: { attribute: string; modifier: number }[] };
+
+// Fixed-stat items carry their stats in the item details; selectable ones on the equipment entry
+function statsSource(entry: GW2EquipmentItem, item?: GW2Item): { id: number; attributes: Record<string, number> } | null {
+  if (entry.stats) return entry.stats;
+  const infix = item?.details?.infix_upgrade as InfixUpgrade | undefined;
+  if (!infix) return null;
+  return {
+    id: infix.id,
+    attributes: Object.fromEntries(infix.attributes.map(a => [a.attribute, a.modifier])),
+  };
+}
+
+// Resolves equipped item ids into names, icons, skins, stat combinations and dye colors
+export class EquipmentService {
+  constructor(private client: Gw2Client, private catalog: ItemCatalog) {}
+
+  async resolve(equipment: GW2EquipmentItem[]): Promise<ResolvedEquipment[]> {
+    const itemIds = equipment.flatMap(e => [e.id, ...(e.upgrades ?? []), ...(e.infusions ?? [])]);
+    const items = new Map((await this.catalog.getItems(itemIds)).map(item => [item.id, item]));
+
+    const statIds = equipment.flatMap(e => statsSource(e, items.get(e.id))?.id ?? []);
+    const skinIds = equipment.flatMap(e => e.skin ?? []);
+    const colorIds = equipment.flatMap(e => (e.dyes ?? []).filter((id): id is number => id !== null));
+
+    const [skins, stats, colors] = await Promise.all([
+      skinIds.length > 0 ? this.client.skins(skinIds) : [],
+      statIds.length > 0 ? this.client.itemStats(statIds) : [],
+      colorIds.length > 0 ? this.client.colors(colorIds) : [],
+    ]);
+    const skinsById = new Map(skins.map(skin => [skin.id, skin]));
+    const statsById = new Map(stats.map(stat => [stat.id, stat]));
+    const colorsById = new Map(colors.map(color => [color.id, color]));
+
+    const itemSummary = (id: number) => {
+      const item = items.get(id);
+      return item ? summarize(item) : { id, name: `Item ${id}`, icon: "", rarity: "Basic" };
+    };
+
+    return equipment.map(entry => {
+      const skin = entry.skin ? skinsById.get(entry.skin) : undefined;
+      const source = statsSource(entry, items.get(entry.id));
+
+      return {
+        slot: entry.slot,
+        item: itemSummary(entry.id),
+        skin: skin ? summarize(skin) : null,
+        upgrades: (entry.upgrades ?? []).map(itemSummary),
+        infusions: (entry.infusions ?? []).map(itemSummary),
+        stats: source
+          ? { id: source.id, name: statsById.get(source.id)?.name || "Unknown stats", attributes: source.attributes }
+          : null,
+        dyes: (entry.dyes ?? []).map(id => {
+          const color = id !== null ? colorsById.get(id) : undefined;
+          return color ? { id: color.id, name: color.name, rgb: color.cloth.rgb } : null;
+        }),
+        binding: entry.binding ?? null,
+        boundTo: entry.bound_to ?? null,
+      };
+    });
+  }
+
+  // Resolves every tab in one pass so shared ids are only looked up once
+  async resolveTabs(tabs: GW2EquipmentTab[]): Promise<ResolvedEquipmentTab[]> {
+    const resolved = await this.resolve(tabs.flatMap(tab => tab.equipment));
+    let offset = 0;
+    return tabs.map(tab => {
+      const equipment = resolved.slice(offset, offset + tab.equipment.length);
+      offset += tab.equipment.length;
+      return { tab: tab.tab, name: tab.name, isActive: tab.is_active, equipment };
+    });
+  }
+}
+
+export const equipmentService = new EquipmentService(gw2Client, itemCatalog);
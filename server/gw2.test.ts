@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Gw2ApiError } from "./gw2";
+import { json, requestedIds, standIn } from "./test-gw2";
+
+describe("Gw2Client", () => {
+  it("sends the API key as a bearer token", async () => {
+    const { client, requests } = standIn(() => json({ id: "account-1" }));
+    await client.account("ABCD-1234");
+    await client.professions();
+
+    assert.equal(requests[0].url.pathname, "/v2/account");
+    assert.equal(requests[0].headers.Authorization, "Bearer ABCD-1234");
+    assert.equal(requests[1].headers.Authorization, undefined);
+  });
+
+  it("throws a Gw2ApiError with the status and upstream text", async () => {
+    const { client } = standIn(() => json({ text: "Invalid access token" }, { status: 401, statusText: "Unauthorized" }));
+
+    await assert.rejects(client.tokenInfo("bad"), (error: unknown) => {
+      assert.ok(error instanceof Gw2ApiError);
+      assert.equal(error.status, 401);
+      assert.equal(error.endpoint, "/tokeninfo");
+      assert.match(error.message, /Invalid access token/);
+      return true;
+    });
+  });
+
+  describe("ids", () => {
+    it("splits ids into chunks of 200 and drops duplicates", async () => {
+      const { client, requests } = standIn(url => json(requestedIds(url).map(id => ({ id }))));
+      const ids = Array.from({ length: 450 }, (_, i) => i + 1);
+
+      const items = await client.items([...ids, 1, 2, 3]);
+
+      assert.deepEqual(requests.map(r => requestedIds(r.url).length), [200, 200, 50]);
+      assert.deepEqual(requests.map(r => r.url.searchParams.get("lang")), ["en", "en", "en"]);
+      assert.deepEqual(items.map(item => item.id), ids);
+    });
+
+    it("skips chunks that are entirely unknown when ignoring not found", async () => {
+      const { client } = standIn(url =>
+        requestedIds(url)[0] > 200
+          ? json({ text: "all ids provided are invalid" }, { status: 404 })
+          : json(requestedIds(url).map(id => ({ id }))),
+      );
+      const ids = Array.from({ length: 250 }, (_, i) => i + 1);
+
+      assert.equal((await client.prices(ids)).length, 200);
+      await assert.rejects(client.getMany("/items", ids), Gw2ApiError);
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("backs off and retries a 429", async () => {
+      let calls = 0;
+      const { client, requests } = standIn(() =>
+        ++calls < 3 ? json({ text: "too many requests" }, { status: 429 }) : json({ id: "account-1" }),
+      );
+
+      assert.deepEqual(await client.account("key"), { id: "account-1" });
+      assert.equal(requests.length, 3);
+    });
+
+    it("honours Retry-After and gives up after maxRetries", async () => {
+      const { client, requests } = standIn(
+        () => json({ text: "too many requests" }, { status: 429, headers: { "Retry-After": "0" } }),
+        { maxRetries: 2 },
+      );
+
+      await assert.rejects(client.account("key"), (error: unknown) => error instanceof Gw2ApiError && error.status === 429);
+      assert.equal(requests.length, 3);
+    });
+
+    it("takes a token for every attempt, retries included", async () => {
+      let calls = 0;
+      const { client, requests } = standIn(
+        () => (++calls === 1 ? json({}, { status: 429 }) : json([])),
+        { bucketSize: 1, refillPerSecond: 20 },
+      );
+
+      const started = Date.now();
+      await client.wallet("key");
+      await client.bank("key");
+
+      // One token up front, then 50ms for each of the two later attempts
+      assert.equal(requests.length, 3);
+      assert.ok(Date.now() - started >= 90, `finished after ${Date.now() - started}ms`);
+    });
+  });
+
+  describe("pagination", () => {
+    it("walks every page reported by X-Page-Total", async () => {
+      const { client, requests } = standIn(url => {
+        const page = Number(url.searchParams.get("page"));
+        return json([{ id: page * 2 }, { id: page * 2 + 1 }], { headers: { "X-Page-Total": "3" } });
+      });
+
+      const transactions = await client.transactions("key", "history", "sells");
+
+      assert.deepEqual(transactions.map(t => t.id), [0, 1, 2, 3, 4, 5]);
+      assert.deepEqual(requests.map(r => r.url.searchParams.get("page")), ["0", "1", "2"]);
+      assert.ok(requests.every(r => r.url.searchParams.get("page_size") === "200"));
+    });
+
+    it("keeps existing query parameters and stops after a single page", async () => {
+      const { client, requests } = standIn(() => json([{ name: "Alpha" }]));
+
+      const characters = await client.characters("key");
+
+      assert.deepEqual(characters, [{ name: "Alpha" }]);
+      assert.equal(requests.length, 1);
+      assert.equal(requests[0].url.searchParams.get("v"), "2019-12-19T00:00:00.000Z");
+      assert.equal(requests[0].url.searchParams.get("page"), "0");
+    });
+  });
+});
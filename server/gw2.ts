@@ -0,0 +1,573 @@
+const GW2_API_BASE = "https://api.guildwars2.com/v2";
+
+// The upstream rejects ?ids= lists longer than this
+const MAX_IDS_PER_REQUEST = 200;
+const RETRYABLE_STATUSES = [429, 502, 503];
+const CHARACTER_SCHEMA_VERSION = "2019-12-19T00:00:00.000Z";
+
+export interface GW2Account {
+  id: string;
+  name: string;
+  age: number;
+  world: number;
+  guilds: string[];
+  guild_leader: string[];
+  created: string;
+  access: string[];
+  commander: boolean;
+  fractal_level: number;
+  daily_ap: number;
+  monthly_ap: number;
+  wvw_rank: number;
+  pvp_rank: number;
+}
+
+export interface GW2TokenInfo {
+  id: string;
+  name: string;
+  permissions: string[];
+  type?: "APIKey" | "Subtoken";
+}
+
+export interface GW2Character {
+  name: string;
+  race: string;
+  gender: string;
+  profession: string;
+  level: number;
+  guild?: string;
+  age: number;
+  created: string;
+  deaths: number;
+  // Only present with the build template schema version requested by characters()
+  active_build_tab?: number;
+  build_tabs?: GW2BuildTab[];
+  // Only present when the key has the inventories scope
+  bags?: (GW2Bag | null)[];
+}
+
+export interface GW2WalletEntry {
+  id: number;
+  value: number;
+}
+
+export interface GW2ItemStack {
+  id: number;
+  count: number;
+  charges?: number;
+  skin?: number;
+  upgrades?: number[];
+  infusions?: number[];
+  binding?: "Account" | "Character";
+  bound_to?: string;
+}
+
+export type GW2BankSlot = GW2ItemStack | null;
+
+export interface GW2Material {
+  id: number;
+  category: number;
+  count: number;
+  binding?: "Account";
+}
+
+export interface GW2MaterialCategory {
+  id: number;
+  name: string;
+  items: number[];
+  order: number;
+}
+
+export interface GW2AccountAchievement {
+  id: number;
+  current?: number;
+  max?: number;
+  done: boolean;
+  bits?: number[];
+  repeated?: number;
+  unlocked?: boolean;
+}
+
+export interface GW2AchievementBit {
+  type: "Text" | "Item" | "Minipet" | "Skin";
+  id?: number;
+  text?: string;
+}
+
+export interface GW2AchievementReward {
+  type: "Coins" | "Item" | "Mastery" | "Title";
+  id?: number;
+  count?: number;
+  region?: string;
+}
+
+export interface GW2Achievement {
+  id: number;
+  name: string;
+  description: string;
+  requirement: string;
+  icon?: string;
+  type: string;
+  flags: string[];
+  tiers: { count: number; points: number }[];
+  bits?: GW2AchievementBit[];
+  rewards?: GW2AchievementReward[];
+  point_cap?: number;
+  points?: number;
+}
+
+export interface GW2AchievementGroup {
+  id: string;
+  name: string;
+  description: string;
+  order: number;
+  categories: number[];
+}
+
+export interface GW2AchievementCategory {
+  id: number;
+  name: string;
+  description: string;
+  order: number;
+  icon: string;
+  achievements: number[];
+}
+
+export interface GW2Item {
+  id: number;
+  name: string;
+  description?: string;
+  type: string;
+  level: number;
+  rarity: string;
+  vendor_value: number;
+  icon: string;
+  flags: string[];
+  details?: Record<string, unknown>;
+}
+
+export interface GW2Profession {
+  id: string;
+  name: string;
+  icon: string;
+  icon_big: string;
+}
+
+export interface GW2Currency {
+  id: number;
+  name: string;
+  description: string;
+  icon: string;
+  order: number;
+}
+
+export interface GW2EquipmentItem extends GW2ItemStack {
+  slot: string;
+  // Only set for items with selectable stats
+  stats?: { id: number; attributes: Record<string, number> };
+  dyes?: (number | null)[] | null;
+}
+
+export interface GW2SkillBar {
+  heal: number | null;
+  utilities: (number | null)[];
+  elite: number | null;
+}
+
+export interface GW2Build {
+  name: string;
+  profession: string;
+  specializations: { id: number | null; traits: (number | null)[] }[];
+  skills: GW2SkillBar;
+  aquatic_skills: GW2SkillBar;
+}
+
+export interface GW2BuildTab {
+  tab: number;
+  is_active: boolean;
+  build: GW2Build;
+}
+
+export interface GW2EquipmentTab {
+  tab: number;
+  name: string;
+  is_active: boolean;
+  equipment: GW2EquipmentItem[];
+}
+
+export interface GW2Specialization {
+  id: number;
+  name: string;
+  profession: string;
+  elite: boolean;
+  icon: string;
+  background: string;
+  minor_traits: number[];
+  major_traits: number[];
+  weapon_trait?: number;
+}
+
+export interface GW2Trait {
+  id: number;
+  name: string;
+  icon: string;
+  description?: string;
+  specialization: number;
+  tier: number;
+  order: number;
+  slot: "Major" | "Minor";
+}
+
+export interface GW2Skill {
+  id: number;
+  name: string;
+  icon?: string;
+  description?: string;
+  type?: string;
+  slot?: string;
+}
+
+export interface GW2Skin {
+  id: number;
+  name: string;
+  type: string;
+  rarity: string;
+  icon?: string;
+}
+
+export interface GW2ItemStat {
+  id: number;
+  name: string;
+  attributes: { attribute: string; multiplier: number; value: number }[];
+}
+
+export interface GW2Color {
+  id: number;
+  name: string;
+  base_rgb: [number, number, number];
+  cloth: { rgb: [number, number, number] };
+  leather: { rgb: [number, number, number] };
+  metal: { rgb: [number, number, number] };
+}
+
+export interface GW2CharacterEquipment {
+  equipment: GW2EquipmentItem[];
+}
+
+export interface GW2Bag {
+  id: number;
+  size: number;
+  inventory: (GW2ItemStack | null)[];
+}
+
+export interface GW2CharacterInventory {
+  bags: (GW2Bag | null)[];
+}
+
+export interface GW2Delivery {
+  coins: number;
+  items: { id: number; count: number }[];
+}
+
+export interface GW2Transaction {
+  id: number;
+  item_id: number;
+  price: number;
+  quantity: number;
+  created: string;
+  purchased?: string;
+}
+
+export interface GW2Price {
+  id: number;
+  whitelisted: boolean;
+  buys: { quantity: number; unit_price: number };
+  sells: { quantity: number; unit_price: number };
+}
+
+export class Gw2ApiError extends Error {
+  constructor(message: string, public status: number, public endpoint: string) {
+    super(message);
+    this.name = "Gw2ApiError";
+  }
+}
+
+export interface Gw2ClientOptions {
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  // ArenaNet allows a burst of 300 requests refilled at 5 per second
+  bucketSize?: number;
+  refillPerSecond?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  concurrency?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+  }
+}
+
+export class Gw2Client {
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+  private bucket: TokenBucket;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private concurrency: number;
+
+  constructor(options: Gw2ClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? GW2_API_BASE;
+    this.fetchImpl = options.fetch ?? fetch;
+    this.bucket = new TokenBucket(options.bucketSize ?? 300, options.refillPerSecond ?? 5);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.concurrency = options.concurrency ?? 4;
+  }
+
+  async get<T = any>(endpoint: string, apiKey?: string): Promise<T> {
+    const { body } = await this.request<T>(endpoint, apiKey);
+    return body;
+  }
+
+  // Fetches ?ids= in chunks of 200, a few chunks at a time. With ignoreNotFound a
+  // chunk where every id is unknown (a 404 upstream) yields nothing instead of failing.
+  async getMany<T = any>(
+    endpoint: string,
+    ids: (number | string)[],
+    apiKey?: string,
+    options: { ignoreNotFound?: boolean } = {},
+  ): Promise<T[]> {
+    const uniqueIds = Array.from(new Set(ids));
+    const chunks: (number | string)[][] = [];
+    for (let i = 0; i < uniqueIds.length; i += MAX_IDS_PER_REQUEST) {
+      chunks.push(uniqueIds.slice(i, i + MAX_IDS_PER_REQUEST));
+    }
+
+    const results = await this.mapConcurrent(chunks, async chunk => {
+      try {
+        return await this.get<T[]>(`${endpoint}${endpoint.includes("?") ? "&" : "?"}ids=${chunk.join(",")}`, apiKey);
+      } catch (error) {
+        if (options.ignoreNotFound && error instanceof Gw2ApiError && error.status === 404) return [];
+        throw error;
+      }
+    });
+    return results.flat();
+  }
+
+  // Walks every page using the X-Page-Total header
+  async getAllPages<T = any>(endpoint: string, apiKey?: string, pageSize = MAX_IDS_PER_REQUEST): Promise<T[]> {
+    const separator = endpoint.includes("?") ? "&" : "?";
+    const pageUrl = (page: number) => `${endpoint}${separator}page=${page}&page_size=${pageSize}`;
+
+    const first = await this.request<T[]>(pageUrl(0), apiKey);
+    const pageTotal = parseInt(first.headers.get("X-Page-Total") || "1", 10);
+    if (pageTotal <= 1) return first.body;
+
+    const pages = Array.from({ length: pageTotal - 1 }, (_, i) => i + 1);
+    const rest = await this.mapConcurrent(pages, page => this.get<T[]>(pageUrl(page), apiKey));
+    return first.body.concat(...rest);
+  }
+
+  tokenInfo(apiKey: string) {
+    return this.get<GW2TokenInfo>("/tokeninfo", apiKey);
+  }
+
+  account(apiKey: string) {
+    return this.get<GW2Account>("/account", apiKey);
+  }
+
+  accountAchievements(apiKey: string) {
+    return this.get<GW2AccountAchievement[]>("/account/achievements", apiKey);
+  }
+
+  wallet(apiKey: string) {
+    return this.get<GW2WalletEntry[]>("/account/wallet", apiKey);
+  }
+
+  bank(apiKey: string) {
+    return this.get<GW2BankSlot[]>("/account/bank", apiKey);
+  }
+
+  materials(apiKey: string) {
+    return this.get<GW2Material[]>("/account/materials", apiKey);
+  }
+
+  materialCategories() {
+    return this.get<GW2MaterialCategory[]>("/materials?ids=all");
+  }
+
+  sharedInventory(apiKey: string) {
+    return this.get<(GW2ItemStack | null)[]>("/account/inventory", apiKey);
+  }
+
+  // Asks for the schema version that includes build tabs
+  characters(apiKey: string) {
+    return this.getAllPages<GW2Character>(`/characters?v=${CHARACTER_SCHEMA_VERSION}`, apiKey);
+  }
+
+  characterEquipment(name: string, apiKey: string) {
+    return this.get<GW2CharacterEquipment>(`/characters/${encodeURIComponent(name)}/equipment`, apiKey);
+  }
+
+  characterInventory(name: string, apiKey: string) {
+    return this.get<GW2CharacterInventory>(`/characters/${encodeURIComponent(name)}/inventory`, apiKey);
+  }
+
+  characterBuildTabs(name: string, apiKey: string) {
+    return this.get<GW2BuildTab[]>(`/characters/${encodeURIComponent(name)}/buildtabs?tabs=all`, apiKey);
+  }
+
+  characterEquipmentTabs(name: string, apiKey: string) {
+    return this.get<GW2EquipmentTab[]>(`/characters/${encodeURIComponent(name)}/equipmenttabs?tabs=all`, apiKey);
+  }
+
+  delivery(apiKey: string) {
+    return this.get<GW2Delivery>("/commerce/delivery", apiKey);
+  }
+
+  transactions(apiKey: string, state: "current" | "history", kind: "buys" | "sells") {
+    return this.getAllPages<GW2Transaction>(`/commerce/transactions/${state}/${kind}`, apiKey);
+  }
+
+  // Untradeable items have no price and are left out of the result
+  prices(ids: number[]) {
+    return this.getMany<GW2Price>("/commerce/prices", ids, undefined, { ignoreNotFound: true });
+  }
+
+  // Account progress can reference hidden or removed achievements, which are skipped
+  achievements(ids: number[]) {
+    return this.getMany<GW2Achievement>("/achievements", ids, undefined, { ignoreNotFound: true });
+  }
+
+  achievementGroups() {
+    return this.get<GW2AchievementGroup[]>("/achievements/groups?ids=all");
+  }
+
+  achievementCategories() {
+    return this.get<GW2AchievementCategory[]>("/achievements/categories?ids=all");
+  }
+
+  item(id: number) {
+    return this.get<GW2Item>(`/items/${id}`);
+  }
+
+  items(ids: number[], language = "en") {
+    return this.getMany<GW2Item>(`/items?lang=${language}`, ids, undefined, { ignoreNotFound: true });
+  }
+
+  // Unknown ids (e.g. hidden skins) are skipped rather than failing the whole lookup
+  skins(ids: number[]) {
+    return this.getMany<GW2Skin>("/skins", ids, undefined, { ignoreNotFound: true });
+  }
+
+  itemStats(ids: number[]) {
+    return this.getMany<GW2ItemStat>("/itemstats", ids, undefined, { ignoreNotFound: true });
+  }
+
+  specializations(ids: number[]) {
+    return this.getMany<GW2Specialization>("/specializations", ids, undefined, { ignoreNotFound: true });
+  }
+
+  traits(ids: number[]) {
+    return this.getMany<GW2Trait>("/traits", ids, undefined, { ignoreNotFound: true });
+  }
+
+  skills(ids: number[]) {
+    return this.getMany<GW2Skill>("/skills", ids, undefined, { ignoreNotFound: true });
+  }
+
+  colors(ids: number[]) {
+    return this.getMany<GW2Color>("/colors", ids, undefined, { ignoreNotFound: true });
+  }
+
+  professions() {
+    return this.get<GW2Profession[]>("/professions?ids=all");
+  }
+
+  currencies() {
+    return this.get<GW2Currency[]>("/currencies?ids=all");
+  }
+
+  private async request<T>(endpoint: string, apiKey?: string): Promise<{ body: T; headers: Headers }> {
+    const headers: Record<string, string> = {};
+
+    // Only add Authorization header if API key is provided and not empty
+    if (apiKey && apiKey.trim()) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      const response = await this.fetchImpl(`${this.baseUrl}${endpoint}`, { headers });
+
+      if (response.ok) {
+        return { body: await response.json() as T, headers: response.headers };
+      }
+
+      if (RETRYABLE_STATUSES.includes(response.status) && attempt < this.maxRetries) {
+        const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10);
+        const delay = Number.isNaN(retryAfter)
+          ? this.retryBaseDelayMs * 2 ** attempt
+          : retryAfter * 1000;
+        await sleep(delay);
+        continue;
+      }
+
+      let errorMessage = `GW2 API Error: ${response.status} ${response.statusText}`;
+
+      // Try to get more detailed error message from response
+      try {
+        const errorData = await response.json() as any;
+        if (errorData?.text) {
+          errorMessage += ` - ${errorData.text}`;
+        }
+      } catch {
+        // Ignore JSON parsing errors, use basic error message
+      }
+
+      console.error(`API Error for ${endpoint}:`, errorMessage);
+      throw new Gw2ApiError(errorMessage, response.status, endpoint);
+    }
+  }
+
+  private async mapConcurrent<T, R>(inputs: T[], fn: (input: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(inputs.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < inputs.length) {
+        const index = next++;
+        results[index] = await fn(inputs[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, inputs.length) }, worker));
+    return results;
+  }
+}
+
+export const gw2Client = new Gw2Client({
+  baseUrl: process.env.GW2_API_BASE || GW2_API_BASE,
+});
@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { collectHoldings } from "./holdings";
+import { json, standIn } from "./test-gw2";
+import type { AccountWithDetails, Character } from "./schema";
+
+function account(permissions: string[], characters: Pick<Character, "name" | "bags">[]): AccountWithDetails {
+  return {
+    id: "account-1",
+    permissions,
+    bankItems: [
+      { id: "b1", itemId: 19697, count: 5, slot: 0, binding: null, accountId: "account-1" },
+      { id: "b2", itemId: 20000, count: 1, slot: 1, binding: "Account", accountId: "account-1" },
+    ],
+    materials: [{ id: "m1", itemId: 19721, category: 5, count: 250, accountId: "account-1" }],
+    characters: characters as Character[],
+  } as AccountWithDetails;
+}
+
+describe("collectHoldings", () => {
+  it("reads bank binding and synced character bags, fetching only the shared inventory", async () => {
+    const { client, requests } = standIn(() => json([{ id: 30000, count: 1, binding: "Account" }, null]));
+
+    const holdings = await collectHoldings(client, account(["inventories", "characters"], [
+      { name: "Alpha", bags: [null, { id: 8932, size: 20, inventory: [null, { id: 24, count: 3 }] }] },
+      { name: "Beta", bags: null },
+    ]), "key");
+
+    assert.deepEqual(requests.map(r => r.url.pathname), ["/v2/account/inventory"]);
+    assert.deepEqual(holdings.map(h => [h.itemId, h.count, h.bound, h.location]), [
+      [19697, 5, false, { type: "bank", slot: 0 }],
+      [20000, 1, true, { type: "bank", slot: 1 }],
+      [19721, 250, false, { type: "materials", category: 5 }],
+      [24, 3, false, { type: "character", character: "Alpha", bag: 1, slot: 1 }],
+      [30000, 1, true, { type: "shared", slot: 0 }],
+    ]);
+  });
+
+  it("makes no requests without the inventories scope", async () => {
+    const { client } = standIn(() => assert.fail("unexpected request"));
+
+    const holdings = await collectHoldings(client, account(["characters"], []), "key");
+
+    assert.equal(holdings.length, 3);
+  });
+});
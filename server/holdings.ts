@@ -0,0 +1,71 @@
+import type { Gw2Client } from "./gw2";
+import type { AccountWithDetails, StoredItemStack } from "./schema";
+
+export type ItemLocation =
+  | { type: "bank"; slot: number }
+  | { type: "materials"; category: number }
+  | { type: "shared"; slot: number }
+  | { type: "character"; character: string; bag: number; slot: number };
+
+export interface Holding {
+  itemId: number;
+  count: number;
+  bound: boolean;
+  location: ItemLocation;
+}
+
+export function locationLabel(location: ItemLocation): string {
+  switch (location.type) {
+    case "bank":
+      return "Bank";
+    case "materials":
+      return "Material Storage";
+    case "shared":
+      return "Shared Inventory";
+    case "character":
+      return location.character;
+  }
+}
+
+function stackToHolding(stack: StoredItemStack, location: ItemLocation): Holding {
+  return { itemId: stack.id, count: stack.count || 1, bound: !!stack.binding, location };
+}
+
+// Every item stack the account owns. Bank, materials and character bags come from
+// the last sync; the shared inventory isn't synced, so it is read live when the key
+// has the inventories scope.
+export async function collectHoldings(client: Gw2Client, account: AccountWithDetails, apiKey: string): Promise<Holding[]> {
+  const holdings: Holding[] = [
+    ...account.bankItems
+      .filter(item => item.itemId)
+      .map(item => ({
+        itemId: item.itemId!,
+        count: item.count || 1,
+        bound: !!item.binding,
+        location: { type: "bank" as const, slot: item.slot ?? 0 },
+      })),
+    ...account.materials.map(m => ({
+      itemId: m.itemId,
+      count: m.count,
+      bound: false,
+      location: { type: "materials" as const, category: m.category ?? 0 },
+    })),
+  ];
+
+  account.characters.forEach(({ name: character, bags }) => {
+    (bags ?? []).forEach((bag, bagIndex) => {
+      bag?.inventory.forEach((stack, slot) => {
+        if (stack) holdings.push(stackToHolding(stack, { type: "character", character, bag: bagIndex, slot }));
+      });
+    });
+  });
+
+  if (!account.permissions.includes("inventories")) return holdings;
+
+  const shared = await client.sharedInventory(apiKey);
+  shared.forEach((stack, slot) => {
+    if (stack) holdings.push(stackToHolding(stack, { type: "shared", slot }));
+  });
+
+  return holdings;
+}
@@ -1,10 +1,19 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { log } from "./logger";
+import { itemCatalog } from "./catalog";
+import { storage } from "./storage";
+import { syncScheduler } from "./scheduler";
+import { createSessionMiddleware } from "./session";
 
 const app = express();
+// Render terminates TLS at its proxy; needed for secure session cookies
+if (process.env.NODE_ENV === "production") {
+  app.set("trust proxy", 1);
+}
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+app.use(createSessionMiddleware());
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -64,4 +73,17 @@ app.use((req, res, next) => {
   server.listen(port, host, () => {
     log(`serving on ${host}:${port}`);
   });
+
+  // Keep cached item metadata current after game patches
+  itemCatalog.startRefreshJob();
+
+  // Re-sync every valid key in the background
+  syncScheduler.start();
+
+  // Finish any API_KEY_SECRET rotation by re-sealing keys under the new secret
+  storage.rotateApiKeys()
+    .then(count => {
+      if (count > 0) log(`re-encrypted ${count} API keys with the current secret`, "keyvault");
+    })
+    .catch(error => log(`API key rotation failed: ${error.message}`, "keyvault"));
 })();
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from "crypto";
+import { log } from "./logger";
+
+const IV_BYTES = 12;
+
+interface DerivedSecret {
+  id: string;
+  encryptionKey: Buffer;
+  lookupKey: Buffer;
+}
+
+function derive(secret: string, info: string, length: number) {
+  return Buffer.from(hkdfSync("sha256", secret, "tyrian-tracker", info, length));
+}
+
+function deriveSecret(secret: string): DerivedSecret {
+  return {
+    id: derive(secret, "api-key-secret-id", 4).toString("hex"),
+    encryptionKey: derive(secret, "api-key-encryption", 32),
+    lookupKey: derive(secret, "api-key-lookup", 32),
+  };
+}
+
+// Encrypts GW2 API keys with AES-256-GCM and derives keyed hashes for lookups.
+// The first secret seals new data; the rest are only used to read data sealed
+// before a rotation, until rotateApiKeys has re-sealed it.
+export class KeyVault {
+  private secrets: DerivedSecret[];
+
+  constructor(secrets: string[]) {
+    if (secrets.length === 0) throw new Error("KeyVault needs at least one secret");
+    this.secrets = secrets.map(deriveSecret);
+  }
+
+  private get current() {
+    return this.secrets[0];
+  }
+
+  // Format: <secret id>.<iv>.<auth tag>.<ciphertext>, all base64url except the id
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv("aes-256-gcm", this.current.encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    return [
+      this.current.id,
+      iv.toString("base64url"),
+      cipher.getAuthTag().toString("base64url"),
+      ciphertext.toString("base64url"),
+    ].join(".");
+  }
+
+  decrypt(sealed: string): string {
+    const [id, iv, tag, ciphertext] = sealed.split(".");
+    const secret = this.secrets.find(s => s.id === id);
+    if (!secret || !iv || !tag || ciphertext === undefined) {
+      throw new Error("API key was sealed with an unknown secret");
+    }
+
+    const decipher = createDecipheriv("aes-256-gcm", secret.encryptionKey, Buffer.from(iv, "base64url"));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+  }
+
+  // Keyed hash under the current secret, stored for lookups
+  hash(plaintext: string): string {
+    return this.hashWith(this.current, plaintext);
+  }
+
+  // Hashes under every configured secret, so lookups still match records not yet rotated
+  lookupHashes(plaintext: string): string[] {
+    return this.secrets.map(secret => this.hashWith(secret, plaintext));
+  }
+
+  isCurrent(sealed: string): boolean {
+    return sealed.startsWith(`${this.current.id}.`);
+  }
+
+  private hashWith(secret: DerivedSecret, plaintext: string) {
+    return createHmac("sha256", secret.lookupKey).update(plaintext).digest("hex");
+  }
+}
+
+// API_KEY_SECRET seals new keys; API_KEY_SECRET_PREVIOUS (comma-separated) can still read old ones
+function createKeyVault(): KeyVault {
+  const previous = (process.env.API_KEY_SECRET_PREVIOUS || "").split(",").map(s => s.trim()).filter(Boolean);
+  let current = process.env.API_KEY_SECRET;
+
+  if (!current) {
+    if (process.env.NODE_ENV === "production") throw new Error("API_KEY_SECRET must be set in production");
+    log("API_KEY_SECRET not set, using an insecure development secret", "keyvault");
+    current = "tyrian-tracker-dev-secret";
+  }
+
+  return new KeyVault([current, ...previous]);
+}
+
+export const keyVault = createKeyVault();
@@ -0,0 +1,64 @@
+import { gw2Client, type Gw2Client, type GW2MaterialCategory } from "./gw2";
+import { itemCatalog, type ItemCatalog } from "./catalog";
+import { priceCache, type PriceCache, type ItemPrice } from "./prices";
+
+const CATEGORY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface MaterialSlot {
+  itemId: number;
+  name: string;
+  icon: string;
+  rarity: string;
+  price: ItemPrice | null;
+}
+
+export interface MaterialCategoryDetails {
+  id: number;
+  name: string;
+  order: number;
+  items: MaterialSlot[];
+}
+
+// Every material storage slot with item names and TP prices, in in-game order.
+// Account counts are merged in by the client so the same data serves every account.
+export class MaterialCatalogService {
+  private categories: { data: GW2MaterialCategory[]; fetchedAt: number } | null = null;
+
+  constructor(private client: Gw2Client, private catalog: ItemCatalog, private prices: PriceCache) {}
+
+  async list(): Promise<MaterialCategoryDetails[]> {
+    const categories = await this.getCategories();
+    const itemIds = categories.flatMap(category => category.items);
+    const [items, prices] = await Promise.all([
+      this.catalog.getItems(itemIds),
+      this.prices.getPrices(itemIds),
+    ]);
+    const itemsById = new Map(items.map(item => [item.id, item]));
+
+    return categories.map(category => ({
+      id: category.id,
+      name: category.name,
+      order: category.order,
+      items: category.items.map(itemId => {
+        const item = itemsById.get(itemId);
+        return {
+          itemId,
+          name: item?.name ?? `Item ${itemId}`,
+          icon: item?.icon ?? "",
+          rarity: item?.rarity ?? "Basic",
+          price: prices.get(itemId) ?? null,
+        };
+      }),
+    }));
+  }
+
+  private async getCategories(): Promise<GW2MaterialCategory[]> {
+    if (!this.categories || Date.now() - this.categories.fetchedAt > CATEGORY_TTL_MS) {
+      const data = await this.client.materialCategories();
+      this.categories = { data: data.sort((a, b) => a.order - b.order), fetchedAt: Date.now() };
+    }
+    return this.categories.data;
+  }
+}
+
+export const materialCatalogService = new MaterialCatalogService(gw2Client, itemCatalog, priceCache);
@@ -0,0 +1,104 @@
+import { gw2Client, type Gw2Client } from "./gw2";
+import { collectHoldings, locationLabel, type Holding } from "./holdings";
+import { itemCatalog, type ItemCatalog } from "./catalog";
+import { priceCache, type PriceCache } from "./prices";
+import type { AccountWithDetails } from "./schema";
+
+const GOLD_CURRENCY_ID = 1;
+const BOUND_FLAGS = ["AccountBound", "SoulbindOnAcquire"];
+
+export const valuations = ["buy", "sell", "vendor"] as const;
+export type Valuation = typeof valuations[number];
+
+export interface NetWorthItem {
+  itemId: number;
+  name: string;
+  icon: string;
+  count: number;
+  unitValue: number;
+  value: number;
+  source: "tradingpost" | "vendor" | "none";
+  accountBound: boolean;
+  locations: string[];
+}
+
+export interface NetWorth {
+  valuation: Valuation;
+  total: number;
+  byLocation: { location: string; value: number }[];
+  items: NetWorthItem[];
+}
+
+// Values everything an account owns at trading post or vendor prices
+export class NetWorthService {
+  constructor(private client: Gw2Client, private catalog: ItemCatalog, private prices: PriceCache) {}
+
+  async estimate(account: AccountWithDetails, apiKey: string, valuation: Valuation): Promise<NetWorth> {
+    const holdings = await collectHoldings(this.client, account, apiKey);
+
+    const itemIds = Array.from(new Set(holdings.map(h => h.itemId)));
+    const items = new Map((await this.catalog.getItems(itemIds)).map(item => [item.id, item]));
+
+    const isBound = (holding: Holding) =>
+      holding.bound || (items.get(holding.itemId)?.flags || []).some(flag => BOUND_FLAGS.includes(flag));
+
+    const tradeableIds = Array.from(new Set(holdings.filter(h => !isBound(h)).map(h => h.itemId)));
+    const prices = valuation === "vendor" ? new Map() : await this.prices.getPrices(tradeableIds);
+
+    const valueOf = (holding: Holding): Pick<NetWorthItem, "unitValue" | "source"> => {
+      const item = items.get(holding.itemId);
+      const price = prices.get(holding.itemId);
+      const tpValue = price ? (valuation === "buy" ? price.buy : price.sell) : 0;
+
+      if (!isBound(holding) && tpValue > 0) return { unitValue: tpValue, source: "tradingpost" };
+      if (!item || item.flags.includes("NoSell")) return { unitValue: 0, source: "none" };
+      return { unitValue: item.vendor_value, source: "vendor" };
+    };
+
+    const gold = account.wallet.find(w => w.currencyId === GOLD_CURRENCY_ID)?.value ?? 0;
+    const byLocation = new Map<string, number>([["Wallet", gold]]);
+    const byItem = new Map<string, NetWorthItem>();
+
+    holdings.forEach(holding => {
+      const { unitValue, source } = valueOf(holding);
+      const value = unitValue * holding.count;
+      const location = locationLabel(holding.location);
+      byLocation.set(location, (byLocation.get(location) || 0) + value);
+
+      // Bound and unbound copies of the same item are valued differently
+      const accountBound = isBound(holding);
+      const key = `${holding.itemId}:${accountBound}`;
+      const existing = byItem.get(key);
+      if (existing) {
+        existing.count += holding.count;
+        existing.value += value;
+        if (!existing.locations.includes(location)) existing.locations.push(location);
+        return;
+      }
+
+      const item = items.get(holding.itemId);
+      byItem.set(key, {
+        itemId: holding.itemId,
+        name: item?.name || `Item ${holding.itemId}`,
+        icon: item?.icon || "",
+        count: holding.count,
+        unitValue,
+        value,
+        source,
+        accountBound,
+        locations: [location],
+      });
+    });
+
+    const locations = Array.from(byLocation.entries()).map(([location, value]) => ({ location, value }));
+
+    return {
+      valuation,
+      total: locations.reduce((sum, l) => sum + l.value, 0),
+      byLocation: locations,
+      items: Array.from(byItem.values()).sort((a, b) => b.value - a.value),
+    };
+  }
+}
+
+export const netWorthService = new NetWorthService(gw2Client, itemCatalog, priceCache);
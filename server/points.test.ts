@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateAchievementPoints, earnedPoints } from "./points";
+
+// Trimmed /v2/achievements entries, in the shape the definition cache stores
+const SLAYER = {
+  id: 1,
+  flags: [],
+  pointCap: null,
+  tiers: [{ count: 10, points: 1 }, { count: 100, points: 5 }, { count: 500, points: 10 }],
+};
+const REPEATABLE = {
+  id: 2,
+  flags: ["Repeatable"],
+  pointCap: 25,
+  tiers: [{ count: 1, points: 2 }, { count: 5, points: 3 }],
+};
+const UNCAPPED_REPEATABLE = { ...REPEATABLE, id: 3, pointCap: -1 };
+const DAILY = { id: 4, flags: ["Daily"], pointCap: null, tiers: [{ count: 1, points: 10 }] };
+const MONTHLY = { id: 5, flags: ["Monthly"], pointCap: null, tiers: [{ count: 1, points: 20 }] };
+
+describe("earnedPoints", () => {
+  it("sums every tier of a completed achievement", () => {
+    assert.equal(earnedPoints(SLAYER, { id: 1, done: true }), 16);
+  });
+
+  it("counts only the tiers reached so far", () => {
+    assert.equal(earnedPoints(SLAYER, { id: 1, done: false, current: 9, max: 500 }), 0);
+    assert.equal(earnedPoints(SLAYER, { id: 1, done: false, current: 100, max: 500 }), 6);
+  });
+
+  it("pays a repeatable's tier total per completion plus the current run", () => {
+    // Two completions at 5 AP each, and the first tier of the third run
+    assert.equal(earnedPoints(REPEATABLE, { id: 2, done: true, repeated: 2, current: 3, max: 5 }), 12);
+  });
+
+  it("stops a repeatable at its point cap", () => {
+    assert.equal(earnedPoints(REPEATABLE, { id: 2, done: true, repeated: 9, current: 0, max: 5 }), 25);
+  });
+
+  it("treats a negative point cap as uncapped", () => {
+    assert.equal(earnedPoints(UNCAPPED_REPEATABLE, { id: 3, done: true, repeated: 9, current: 0, max: 5 }), 45);
+  });
+
+  it("counts a repeatable's first completion when repeated is missing", () => {
+    assert.equal(earnedPoints(REPEATABLE, { id: 2, done: true, current: 5, max: 5 }), 5);
+  });
+});
+
+describe("calculateAchievementPoints", () => {
+  const definitions = [SLAYER, REPEATABLE, DAILY, MONTHLY];
+
+  it("adds daily and monthly AP from /account instead of their achievements", () => {
+    const breakdown = calculateAchievementPoints(
+      [
+        { id: 1, done: true },
+        { id: 2, done: true, repeated: 2, current: 0, max: 5 },
+        { id: 4, done: true },
+        { id: 5, done: true },
+      ],
+      definitions,
+      { daily_ap: 5000, monthly_ap: 1200 },
+    );
+
+    assert.deepEqual(breakdown, { achievements: 26, daily: 5000, monthly: 1200, total: 6226 });
+  });
+
+  it("ignores progress on achievements without a definition", () => {
+    const breakdown = calculateAchievementPoints([{ id: 99, done: true }], definitions, {});
+
+    assert.deepEqual(breakdown, { achievements: 0, daily: 0, monthly: 0, total: 0 });
+  });
+});
@@ -0,0 +1,57 @@
+import type { GW2AccountAchievement } from "./gw2";
+import type { AchievementDefinition } from "./schema";
+
+type PointRules = Pick<AchievementDefinition, "id" | "tiers" | "flags" | "pointCap">;
+
+export interface AchievementPointsBreakdown {
+  // Earned through /account/achievements progress
+  achievements: number;
+  // Legacy daily and monthly AP, only reported as totals on /account
+  daily: number;
+  monthly: number;
+  total: number;
+}
+
+const tierTotal = (definition: PointRules) => definition.tiers.reduce((sum, tier) => sum + tier.points, 0);
+
+const tiersReached = (definition: PointRules, current: number) =>
+  definition.tiers.reduce((sum, tier) => sum + (current >= tier.count ? tier.points : 0), 0);
+
+// Points one achievement has awarded the account. Repeatable achievements pay
+// their full tier total per completion, up to point_cap across all repeats.
+export function earnedPoints(definition: PointRules, progress: GW2AccountAchievement): number {
+  const current = progress.current ?? 0;
+  const max = progress.max ?? definition.tiers[definition.tiers.length - 1]?.count ?? 0;
+
+  if (!definition.flags.includes("Repeatable")) {
+    return progress.done ? tierTotal(definition) : tiersReached(definition, current);
+  }
+
+  // `repeated` counts every completion, the first included
+  const completions = progress.repeated ?? (progress.done ? 1 : 0);
+  const inProgress = current < max ? tiersReached(definition, current) : 0;
+  const earned = completions * tierTotal(definition) + inProgress;
+
+  const cap = definition.pointCap;
+  return cap !== null && cap >= 0 ? Math.min(earned, cap) : earned;
+}
+
+// Total AP for an account. Daily and monthly achievements are left out of the
+// per-achievement sum because their points are already in daily_ap/monthly_ap.
+export function calculateAchievementPoints(
+  progress: GW2AccountAchievement[],
+  definitions: PointRules[],
+  account: { daily_ap?: number; monthly_ap?: number },
+): AchievementPointsBreakdown {
+  const byId = new Map(definitions.map(definition => [definition.id, definition]));
+
+  const achievements = progress.reduce((sum, entry) => {
+    const definition = byId.get(entry.id);
+    if (!definition || definition.flags.includes("Daily") || definition.flags.includes("Monthly")) return sum;
+    return sum + earnedPoints(definition, entry);
+  }, 0);
+
+  const daily = account.daily_ap ?? 0;
+  const monthly = account.monthly_ap ?? 0;
+  return { achievements, daily, monthly, total: achievements + daily + monthly };
+}
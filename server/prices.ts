@@ -0,0 +1,45 @@
+import { gw2Client, type Gw2Client } from "./gw2";
+
+export interface ItemPrice {
+  buy: number;
+  sell: number;
+}
+
+interface CachedPrice {
+  price: ItemPrice | null;
+  fetchedAt: number;
+}
+
+// In-memory cache of trading post prices. Untradeable ids are cached as null
+// so they aren't requested again on every lookup.
+export class PriceCache {
+  private prices = new Map<number, CachedPrice>();
+
+  constructor(private client: Gw2Client, private ttlMs = 5 * 60 * 1000) {}
+
+  async getPrices(ids: number[]): Promise<Map<number, ItemPrice>> {
+    const now = Date.now();
+    const stale = Array.from(new Set(ids)).filter(id => {
+      const cached = this.prices.get(id);
+      return !cached || now - cached.fetchedAt > this.ttlMs;
+    });
+
+    if (stale.length > 0) {
+      const fetched = await this.client.prices(stale);
+      stale.forEach(id => this.prices.set(id, { price: null, fetchedAt: now }));
+      fetched.forEach(p => this.prices.set(p.id, {
+        price: { buy: p.buys.unit_price, sell: p.sells.unit_price },
+        fetchedAt: now,
+      }));
+    }
+
+    const result = new Map<number, ItemPrice>();
+    ids.forEach(id => {
+      const price = this.prices.get(id)?.price;
+      if (price) result.set(id, price);
+    });
+    return result;
+  }
+}
+
+export const priceCache = new PriceCache(gw2Client);
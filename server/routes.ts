@@ -1,71 +1,22 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertApiKeySchema } from "./schema";
+import { syncService } from "./sync";
+import { gw2Client } from "./gw2";
+import { netWorthService, valuations } from "./networth";
+import { itemSearchService } from "./search";
+import { achievementService } from "./achievements";
+import { itemCatalog } from "./catalog";
+import { materialCatalogService } from "./materials";
+import { equipmentService } from "./equipment";
+import { buildService } from "./builds";
+import { requireAccount } from "./session";
+import { insertApiKeySchema, activityTypes } from "./schema";
 import { z } from "zod";
 import cors from "cors";
 
-const GW2_API_BASE = "https://api.guildwars2.com/v2";
-
-interface GW2Account {
-  id: string;
-  name: string;
-  age: number;
-  world: number;
-  guilds: string[];
-  guild_leader: string[];
-  created: string;
-  access: string[];
-  commander: boolean;
-  fractal_level: number;
-  daily_ap: number;
-  monthly_ap: number;
-  wvw_rank: number;
-  pvp_rank: number;
-  achievement_points: number;
-}
-
-interface GW2Character {
-  name: string;
-  race: string;
-  gender: string;
-  profession: string;
-  level: number;
-  guild?: string;
-  age: number;
-  created: string;
-  deaths: number;
-}
-
-async function fetchGW2API(endpoint: string, apiKey?: string): Promise<any> {
-  const headers: Record<string, string> = {};
-  
-  // Only add Authorization header if API key is provided and not empty
-  if (apiKey && apiKey.trim()) {
-    headers['Authorization'] = `Bearer ${apiKey}`;
-  }
-
-  const response = await fetch(`${GW2_API_BASE}${endpoint}`, { headers });
-
-  if (!response.ok) {
-    let errorMessage = `GW2 API Error: ${response.status} ${response.statusText}`;
-    
-    // Try to get more detailed error message from response
-    try {
-      const errorData = await response.json() as any;
-      if (errorData?.text) {
-        errorMessage += ` - ${errorData.text}`;
-      }
-    } catch {
-      // Ignore JSON parsing errors, use basic error message
-    }
-    
-    console.error(`API Error for ${endpoint}:`, errorMessage);
-    throw new Error(errorMessage);
-  }
-
-  return response.json();
-}
+// Ids accepted per /api/items-bulk call, one /v2/items page
+const MAX_BULK_ITEM_IDS = 200;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
@@ -80,8 +31,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
   
-  // Validate API key and fetch account data
-  app.post("/api/validate-key", async (req, res) => {
+  // List the accounts signed in to this session
+  app.get("/api/session", async (req, res) => {
+    try {
+      const signedIn = Object.entries(req.session.accounts ?? {});
+      const accounts = await Promise.all(
+        signedIn.map(async ([accountId, apiKeyId]) => {
+          const account = await storage.getAccount(apiKeyId);
+          return account && account.id === accountId ? { id: account.id, name: account.name } : undefined;
+        })
+      );
+
+      res.json({ accounts: accounts.filter(a => a !== undefined) });
+    } catch (error) {
+      console.error("Get session error:", error);
+      res.status(500).json({ error: "Failed to read session" });
+    }
+  });
+
+  // Sign in: validate the API key once and remember its account in the session cookie
+  app.post("/api/session", async (req, res) => {
     try {
       const { key } = insertApiKeySchema.parse(req.body);
       
@@ -91,196 +60,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         apiKey = await storage.createApiKey({ key });
       }
 
-      // Validate with GW2 API
-      try {
-        const accountData: GW2Account = await fetchGW2API("/account", key);
-        
-        // Update API key validation status
-        await storage.updateApiKey(key, {
-          isValid: true,
-          accountName: accountData.name,
-          lastValidated: new Date(),
-          permissions: ["account"], // Would normally fetch from /v2/tokeninfo
-        });
-
-        // Calculate total achievement points
-        let totalAchievementPoints = 0;
-        try {
-          console.log('Fetching achievement progress data...');
-          const accountAchievements = await fetchGW2API("/account/achievements", key) as any[];
-          
-          // Get unique achievement IDs from account progress
-          const achievementIds = [...new Set(accountAchievements.map((progress: any) => progress.id))];
-          console.log(`Found ${achievementIds.length} achievements with progress`);
-          
-          if (achievementIds.length > 0) {
-            // Fetch achievement details in batches (GW2 API limit is 200 per request)
-            const batchSize = 200;
-            const achievementPoints = new Map();
-            
-            for (let i = 0; i < achievementIds.length; i += batchSize) {
-              const batch = achievementIds.slice(i, i + batchSize);
-              const batchDetails = await fetchGW2API(`/achievements?ids=${batch.join(',')}`, key) as any[];
-              
-              batchDetails.forEach((ach: any) => {
-                achievementPoints.set(ach.id, ach.points || 0);
-              });
-            }
-            
-            console.log(`Fetched details for ${achievementPoints.size} achievements`);
-            
-            // Debug: Check some achievement data
-            let completedCount = 0;
-            let pointGivingCount = 0;
-            let sampleCompleted: any[] = [];
-            let samplePointGiving: any[] = [];
-            let sampleIncomplete: any[] = [];
-            let pointDistribution = { zero: 0, low: 0, medium: 0, high: 0 };
-            
-            // Sum up points from completed achievements
-            accountAchievements.forEach((progress: any) => {
-              if (progress.done) {
-                completedCount++;
-                const points = achievementPoints.get(progress.id) || 0;
-                
-                // Categorize points for statistics
-                if (points === 0) pointDistribution.zero++;
-                else if (points <= 5) pointDistribution.low++;
-                else if (points <= 15) pointDistribution.medium++;
-                else pointDistribution.high++;
-                
-                // Sample first few completed (regardless of points)
-                if (sampleCompleted.length < 5) {
-                  sampleCompleted.push({ id: progress.id, points, repeated: progress.repeated || 0 });
-                }
-                
-                // Sample achievements that actually give points
-                if (points > 0) {
-                  pointGivingCount++;
-                  if (samplePointGiving.length < 5) {
-                    samplePointGiving.push({ id: progress.id, points, repeated: progress.repeated || 0 });
-                  }
-                }
-                
-                totalAchievementPoints += points;
-                // Handle repeatable achievements
-                if (progress.repeated && progress.repeated > 0) {
-                  totalAchievementPoints += points * progress.repeated;
-                }
-              } else if (sampleIncomplete.length < 3) {
-                sampleIncomplete.push({ 
-                  id: progress.id, 
-                  done: progress.done, 
-                  current: progress.current, 
-                  max: progress.max 
-                });
-              }
-            });
-            
-            console.log(`Found ${completedCount} completed achievements out of ${accountAchievements.length} total`);
-            console.log(`Point distribution - 0pts: ${pointDistribution.zero}, 1-5pts: ${pointDistribution.low}, 6-15pts: ${pointDistribution.medium}, 16+pts: ${pointDistribution.high}`);
-            console.log(`Found ${pointGivingCount} achievements that give points`);
-            console.log(`Sample completed (any points):`, sampleCompleted);
-            console.log(`Sample point-giving achievements:`, samplePointGiving);
-            console.log(`Calculated total achievement points: ${totalAchievementPoints}`);
-          }
-        } catch (error) {
-          console.log("Achievement points calculation failed:", error);
-          totalAchievementPoints = 0;
-        }
-
-        // Create or update account with calculated achievement points
-        const accountWithAchievements = {
-          ...accountData,
-          achievement_points: totalAchievementPoints
-        };
-        const account = await storage.createOrUpdateAccount(accountWithAchievements, apiKey.id);
-
-        // Fetch and save characters with inventory
-        const charactersData: GW2Character[] = await fetchGW2API("/characters?page=0", key);
-        const characters = charactersData.map(char => ({
-          id: Math.random().toString(36),
-          name: char.name,
-          race: char.race,
-          gender: char.gender,
-          profession: char.profession,
-          level: char.level,
-          created: new Date(char.created),
-          age: char.age,
-          deaths: char.deaths,
-          accountId: account.id,
-        }));
-        await storage.saveCharacters(characters, account.id);
-
-        // Fetch wallet
-        try {
-          const walletData = await fetchGW2API("/account/wallet", key);
-          const wallet = walletData.map((item: any) => ({
-            id: Math.random().toString(36),
-            currencyId: item.id,
-            value: item.value,
-            accountId: account.id,
-          }));
-          await storage.saveWallet(wallet, account.id);
-        } catch (error) {
-          console.log("Wallet fetch failed:", error);
-        }
-
-        // Fetch bank
-        try {
-          const bankData = await fetchGW2API("/account/bank", key);
-          const bankItems = bankData
-            .map((item: any, index: number) => item ? ({
-              id: Math.random().toString(36),
-              itemId: item.id,
-              count: item.count || 1,
-              slot: index,
-              accountId: account.id,
-            }) : null)
-            .filter(Boolean);
-          await storage.saveBankItems(bankItems, account.id);
-        } catch (error) {
-          console.log("Bank fetch failed:", error);
-        }
-
-        // Fetch materials
-        try {
-          const materialsData = await fetchGW2API("/account/materials", key);
-          const materials = materialsData.map((item: any) => ({
-            id: Math.random().toString(36),
-            itemId: item.id,
-            category: item.category,
-            count: item.count,
-            accountId: account.id,
-          }));
-          await storage.saveMaterials(materials, account.id);
-        } catch (error) {
-          console.log("Materials fetch failed:", error);
-        }
-
-        // Add some sample activities
-        await storage.saveActivity({
-          type: "achievement",
-          description: "Achievement completed",
-          reward: "50 AP",
-          accountId: account.id,
-        }, account.id);
-
-        res.json({ 
-          success: true, 
-          account: await storage.getAccountWithDetails(apiKey.id) 
-        });
-
-      } catch (error) {
-        await storage.updateApiKey(key, {
-          isValid: false,
-          lastValidated: new Date(),
-        });
-        throw error;
+      const { account, status, skipped, failed } = await syncService.syncAccount(apiKey);
+      if (!account) {
+        throw new Error("Account data could not be loaded");
       }
 
+      // New session id on sign-in, carrying over accounts already signed in
+      const accounts = { ...req.session.accounts, [account.id]: apiKey.id };
+      await new Promise<void>((resolve, reject) => req.session.regenerate(err => err ? reject(err) : resolve()));
+      req.session.accounts = accounts;
+
+      res.json({ 
+        success: true, 
+        account,
+        status,
+        skipped,
+        failed,
+      });
+
     } catch (error) {
-      console.error("API validation error:", error);
+      console.error("Sign-in error:", error);
       res.status(400).json({ 
         success: false, 
         message: error instanceof Error ? error.message : "Invalid API key" 
@@ -288,17 +87,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get account data
-  app.get("/api/account/:key", async (req, res) => {
-    try {
-      const { key } = req.params;
-      const apiKey = await storage.getApiKey(key);
-      
-      if (!apiKey || !apiKey.isValid) {
-        return res.status(404).json({ error: "API key not found or invalid" });
+  // Sign out of one account, keeping the others
+  app.delete("/api/session/:accountId", (req, res) => {
+    const { [req.params.accountId]: _removed, ...accounts } = req.session.accounts ?? {};
+    req.session.accounts = accounts;
+    res.json({ success: true });
+  });
+
+  // Sign out of every account
+  app.delete("/api/session", (req, res) => {
+    req.session.destroy(err => {
+      if (err) {
+        console.error("Sign-out error:", err);
+        return res.status(500).json({ error: "Failed to sign out" });
       }
+      res.json({ success: true });
+    });
+  });
 
-      const account = await storage.getAccountWithDetails(apiKey.id);
+  // Get account data
+  app.get("/api/accounts/:accountId", requireAccount, async (req, res) => {
+    try {
+      const account = await storage.getAccountWithDetails(res.locals.apiKey.id);
       if (!account) {
         return res.status(404).json({ error: "Account not found" });
       }
@@ -310,39 +120,220 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Refresh account data
-  app.post("/api/refresh/:key", async (req, res) => {
+  // Get account snapshots over a date range (defaults to the last 7 days)
+  app.get("/api/accounts/:accountId/snapshots", requireAccount, async (req, res) => {
     try {
-      const { key } = req.params;
-      const apiKey = await storage.getApiKey(key);
-      
-      if (!apiKey || !apiKey.isValid) {
-        return res.status(404).json({ error: "API key not found or invalid" });
+      const { from, to } = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      }).parse(req.query);
+
+      const end = to ?? new Date();
+      const start = from ?? new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+      res.json(await storage.getSnapshots(req.params.accountId, start, end));
+    } catch (error: any) {
+      console.error("Get snapshots error:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Wallet balances per snapshot, without the rest of each snapshot (defaults to the last 7 days)
+  app.get("/api/accounts/:accountId/wallet/history", requireAccount, async (req, res) => {
+    try {
+      const { from, to } = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      }).parse(req.query);
+
+      const end = to ?? new Date();
+      const start = from ?? new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+      const snapshots = await storage.getSnapshots(req.params.accountId, start, end);
+      // Snapshots from syncs where the wallet step didn't run have no balances
+      res.json(snapshots.flatMap(({ takenAt, wallet }) => wallet ? [{ takenAt, wallet }] : []));
+    } catch (error: any) {
+      console.error("Get wallet history error:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Page through the account's activity feed, optionally filtered by type
+  app.get("/api/accounts/:accountId/activities", requireAccount, async (req, res) => {
+    try {
+      const { type, page, pageSize } = z.object({
+        type: z.enum(activityTypes).optional(),
+        page: z.coerce.number().int().min(0).default(0),
+        pageSize: z.coerce.number().int().min(1).max(100).default(20),
+      }).parse(req.query);
+
+      // Ask for one extra row to learn whether another page exists
+      const activities = await storage.getRecentActivities(req.params.accountId, pageSize + 1, {
+        offset: page * pageSize,
+        type,
+      });
+
+      res.json({
+        activities: activities.slice(0, pageSize),
+        hasMore: activities.length > pageSize,
+      });
+    } catch (error: any) {
+      console.error("Get activities error:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Get delivery box, open orders and transaction history
+  app.get("/api/accounts/:accountId/tradingpost", requireAccount, async (req, res) => {
+    try {
+      // Null until a sync with the tradingpost permission has run
+      res.json((await storage.getTradingPost(req.params.accountId)) ?? null);
+    } catch (error) {
+      console.error("Get trading post error:", error);
+      res.status(500).json({ error: "Failed to fetch trading post data" });
+    }
+  });
+
+  // Estimate what everything the account owns is worth
+  app.get("/api/accounts/:accountId/networth", requireAccount, async (req, res) => {
+    try {
+      const { valuation } = z.object({
+        valuation: z.enum(valuations).default("sell"),
+      }).parse(req.query);
+
+      const { apiKey } = res.locals;
+      const account = await storage.getAccountWithDetails(apiKey.id);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+
+      res.json(await netWorthService.estimate(account, apiKey.key, valuation));
+    } catch (error: any) {
+      console.error("Net worth error:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Search every item the account owns, wherever it is stored
+  app.get("/api/accounts/:accountId/items/search", requireAccount, async (req, res) => {
+    try {
+      const filters = z.object({
+        q: z.string().optional(),
+        rarity: z.string().optional(),
+        type: z.string().optional(),
+      }).parse(req.query);
+
+      const { apiKey } = res.locals;
+      const account = await storage.getAccountWithDetails(apiKey.id);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+
+      res.json(await itemSearchService.search(account, apiKey.key, filters));
+    } catch (error: any) {
+      console.error("Item search error:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Achievement groups and categories with completion counts, plus the nearest unfinished achievements
+  app.get("/api/accounts/:accountId/achievements", requireAccount, async (req, res) => {
+    try {
+      const { apiKey } = res.locals;
+      if (!apiKey.permissions?.includes("progression")) {
+        return res.status(403).json({ error: 'API key is missing the "progression" permission' });
+      }
+
+      res.json(await achievementService.overview(apiKey.key));
+    } catch (error: any) {
+      console.error("Achievements error:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Every achievement in one category with tiers, bits, rewards and the account's progress
+  app.get("/api/accounts/:accountId/achievements/categories/:categoryId", requireAccount, async (req, res) => {
+    try {
+      const { categoryId } = z.object({ categoryId: z.coerce.number().int() }).parse(req.params);
+      const { apiKey } = res.locals;
+      if (!apiKey.permissions?.includes("progression")) {
+        return res.status(403).json({ error: 'API key is missing the "progression" permission' });
+      }
+
+      const achievements = await achievementService.category(apiKey.key, categoryId);
+      if (!achievements) {
+        return res.status(404).json({ error: "Achievement category not found" });
+      }
+
+      res.json(achievements);
+    } catch (error: any) {
+      console.error("Achievement category error:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Get character details with resolved equipment, inventory, build tabs and equipment tabs.
+  // Sections load independently; a failed one is null with its message in errors.
+  app.get("/api/accounts/:accountId/characters/:name", requireAccount, async (req, res) => {
+    try {
+      const { name } = req.params;
+      const { apiKey } = res.locals;
+
+      const [equipment, inventory, buildTabs, equipmentTabs] = await Promise.allSettled([
+        gw2Client.characterEquipment(name, apiKey.key).then(e => equipmentService.resolve(e.equipment)),
+        gw2Client.characterInventory(name, apiKey.key),
+        gw2Client.characterBuildTabs(name, apiKey.key).then(tabs => buildService.resolve(tabs)),
+        gw2Client.characterEquipmentTabs(name, apiKey.key).then(tabs => equipmentService.resolveTabs(tabs)),
+      ]);
+      const sections = { equipment, inventory, buildTabs, equipmentTabs };
+
+      const rejected = Object.entries(sections).filter(
+        (entry): entry is [string, PromiseRejectedResult] => entry[1].status === "rejected",
+      );
+      // Nothing to show, e.g. the character doesn't exist
+      if (rejected.length === Object.keys(sections).length) throw rejected[0][1].reason;
+
+      const errors: Record<string, string> = {};
+      for (const [section, result] of rejected) {
+        console.error(`Character ${section} fetch error for ${name}:`, result.reason);
+        errors[section] = result.reason instanceof Error ? result.reason.message : String(result.reason);
       }
+      const value = <T>(result: PromiseSettledResult<T>) => (result.status === "fulfilled" ? result.value : null);
+
+      res.json({
+        equipment: value(equipment),
+        inventory: value(inventory),
+        buildTabs: value(buildTabs),
+        equipmentTabs: value(equipmentTabs),
+        errors,
+      });
+    } catch (error: any) {
+      console.error(`Character fetch error for ${req.params.name}:`, error);
+      res.status(400).json({ error: error.message });
+    }
+  });
 
-      // Re-fetch data from GW2 API
-      const accountData: GW2Account = await fetchGW2API("/account", key);
-      const account = await storage.createOrUpdateAccount(accountData, apiKey.id);
+  // Refresh account data
+  app.post("/api/accounts/:accountId/refresh", requireAccount, async (req, res) => {
+    try {
+      const { account, status, skipped, failed } = await syncService.syncAccount(res.locals.apiKey);
 
-      res.json({ success: true, account: await storage.getAccountWithDetails(apiKey.id) });
+      res.json({ success: true, account, status, skipped, failed });
     } catch (error) {
       console.error("Refresh error:", error);
       res.status(500).json({ error: "Failed to refresh account data" });
     }
   });
 
-  // Fetch item details with icons from GW2 API
+  // Fetch item details with icons (public endpoint - served from the item catalog)
   app.get("/api/items/:itemId", async (req, res) => {
     try {
       const { itemId } = req.params;
-      const apiKey = req.headers.authorization?.replace('Bearer ', '');
-      
-      if (!apiKey) {
-        return res.status(401).json({ error: "API key required" });
+      const { lang } = z.object({ lang: z.string().default("en") }).parse(req.query);
+
+      const itemData = await itemCatalog.getItem(parseInt(itemId, 10), lang);
+      if (!itemData) {
+        return res.status(404).json({ error: "Item not found" });
       }
 
-      const itemData = await fetchGW2API(`/items/${itemId}`, apiKey);
-      
       res.json({
         id: itemData.id,
         name: itemData.name,
@@ -361,19 +352,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Bulk fetch item details
   app.post("/api/items-bulk", async (req, res) => {
     try {
-      const { ids } = z.object({ ids: z.array(z.number()) }).parse(req.body);
-      const apiKey = req.headers.authorization?.replace('Bearer ', '');
-
-      if (!apiKey) {
-        return res.status(401).json({ error: "API key required" });
-      }
+      const { ids, lang } = z.object({
+        // One upstream page at most, so a single request can't drain the shared rate limit
+        ids: z.array(z.number()).max(MAX_BULK_ITEM_IDS),
+        lang: z.string().default("en"),
+      }).parse(req.body);
 
       if (ids.length === 0) {
         return res.json([]);
       }
 
-      // GW2 API has a limit of 200 IDs per request
-      const items = await fetchGW2API(`/items?ids=${ids.join(',')}`, apiKey);
+      // Cached items come from storage, the rest are fetched in 200-id chunks
+      const items = await itemCatalog.getItems(ids, lang);
       res.json(items);
     } catch (error: any) {
       console.error("Bulk item fetch error:", error);
@@ -384,7 +374,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get profession data with icons (public endpoint - no API key needed)
   app.get("/api/professions", async (req, res) => {
     try {
-      const professionsData = await fetchGW2API("/professions?ids=all");
+      const professionsData = await gw2Client.professions();
       res.json(professionsData);
     } catch (error: any) {
       console.error("Professions fetch error:", error);
@@ -395,7 +385,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get all currencies with icons (public endpoint - no API key needed)
   app.get("/api/currencies", async (req, res) => {
     try {
-      const currenciesData = await fetchGW2API("/currencies?ids=all");
+      const currenciesData = await gw2Client.currencies();
       res.json(currenciesData);
     } catch (error: any) {
       console.error("Currencies fetch error:", error);
@@ -403,24 +393,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get character details with equipment and inventory
-  app.get("/api/characters/:name", async (req, res) => {
+  // Material storage categories in in-game order with item names and TP prices (public endpoint - no API key needed)
+  app.get("/api/materials", async (req, res) => {
     try {
-      const { name } = req.params;
-      const apiKey = req.headers.authorization?.replace('Bearer ', '');
-
-      if (!apiKey) {
-        return res.status(401).json({ error: "API key required" });
-      }
-
-      const [equipment, inventory] = await Promise.all([
-        fetchGW2API(`/characters/${encodeURIComponent(name)}/equipment`, apiKey),
-        fetchGW2API(`/characters/${encodeURIComponent(name)}/inventory`, apiKey),
-      ]);
-
-      res.json({ equipment, inventory });
+      res.json(await materialCatalogService.list());
     } catch (error: any) {
-      console.error(`Character fetch error for ${req.params.name}:`, error);
+      console.error("Material categories fetch error:", error);
       res.status(400).json({ error: error.message });
     }
   });
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, it, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { SyncScheduler } from "./scheduler";
+import { MemStorage } from "./storage";
+import { KeyVault } from "./keyvault";
+import type { SyncService } from "./sync";
+import type { ApiKey } from "./schema";
+
+// Resolves once check passes, polling so the scheduler's timers can run
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error("Timed out waiting for the scheduler");
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+// Lets pending promise chains run without advancing mocked timers
+async function settle() {
+  for (let i = 0; i < 20; i++) await new Promise(resolve => setImmediate(resolve));
+}
+
+// Moves mocked time forward a millisecond at a time, settling the scheduler's async work in between
+async function advance(t: TestContext, ms: number) {
+  for (let i = 0; i < ms; i++) {
+    await settle();
+    t.mock.timers.tick(1);
+  }
+  await settle();
+}
+
+describe("SyncScheduler", () => {
+  let storage: MemStorage;
+  let synced: { key: string; at: number }[];
+  let onSync: (apiKey: ApiKey) => Promise<void>;
+  let scheduler: SyncScheduler | undefined;
+
+  // Stands in for SyncService, recording each sync it is asked for
+  const stubSync = {
+    syncAccount: async (apiKey: ApiKey) => {
+      synced.push({ key: apiKey.key, at: Date.now() });
+      await onSync(apiKey);
+      return { account: undefined, status: "ok", skipped: [], failed: [] };
+    },
+  } as unknown as SyncService;
+
+  async function validKey(key: string) {
+    const apiKey = await storage.createApiKey({ key });
+    await storage.updateApiKey(apiKey.id, { isValid: true });
+    return apiKey;
+  }
+
+  beforeEach(() => {
+    storage = new MemStorage(new KeyVault(["test-secret"]));
+    synced = [];
+    onSync = async () => {};
+  });
+
+  afterEach(() => {
+    scheduler?.stop();
+    scheduler = undefined;
+  });
+
+  it("spaces the keys evenly across the interval and publishes each slot", async () => {
+    const keys = [await validKey("a"), await validKey("b"), await validKey("c")];
+    scheduler = new SyncScheduler(storage, stubSync, 300);
+
+    const started = Date.now();
+    scheduler.start();
+    await waitFor(() => synced.length === 3);
+
+    assert.deepEqual(synced.map(s => s.key), ["a", "b", "c"]);
+    synced.forEach((sync, i) => assert.ok(sync.at - started >= i * 100 - 5, `sync ${i} ran after ${sync.at - started}ms`));
+
+    // Each synced key is moved to the same slot one interval later
+    const slots = await Promise.all(keys.map(async k => (await storage.getApiKeyById(k.id))?.nextSyncAt?.getTime() ?? 0));
+    slots.forEach((slot, i) => assert.ok(Math.abs(slot - (started + 300 + i * 100)) < 50, `slot ${i} is ${slot - started}ms`));
+  });
+
+  it("keeps a key whose sync failed and retries it next cycle", async t => {
+    t.mock.timers.enable({ apis: ["setTimeout", "Date"], now: 0 });
+    await validKey("flaky");
+    onSync = async apiKey => {
+      if (synced.length === 1) {
+        await storage.updateApiKey(apiKey.id, { lastSyncStatus: "failed" });
+        throw new Error("GW2 API Error: 503 Service Unavailable");
+      }
+    };
+    scheduler = new SyncScheduler(storage, stubSync, 50);
+
+    scheduler.start();
+    await advance(t, 60);
+
+    // Synced at the start of the first cycle and again exactly one interval later
+    assert.deepEqual(synced.map(s => s.key), ["flaky", "flaky"]);
+    assert.equal(synced[1].at - synced[0].at, 50);
+  });
+
+  it("skips keys that are invalid or become invalid before their slot", async () => {
+    await validKey("first");
+    const second = await validKey("second");
+    await storage.createApiKey({ key: "never-valid" });
+    // Revoked while the first key syncs, after the cycle was planned
+    onSync = async apiKey => {
+      if (apiKey.key === "first") await storage.updateApiKey(second.id, { isValid: false });
+    };
+    scheduler = new SyncScheduler(storage, stubSync, 100);
+
+    scheduler.start();
+    await waitFor(() => synced.length === 2);
+
+    assert.deepEqual(synced.map(s => s.key), ["first", "first"]);
+  });
+
+  it("does nothing when the interval is zero", async () => {
+    await validKey("a");
+    scheduler = new SyncScheduler(storage, stubSync, 0);
+
+    scheduler.start();
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    assert.deepEqual(synced, []);
+  });
+});
@@ -0,0 +1,96 @@
+import { storage, type IStorage } from "./storage";
+import { syncService, type SyncService } from "./sync";
+import { log } from "./logger";
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+interface ScheduledSync {
+  apiKeyId: string;
+  at: number;
+}
+
+// Re-syncs every valid API key once per interval. Keys are spaced evenly across
+// the interval and synced one at a time, so a cycle never bursts the GW2 rate limit.
+export class SyncScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private queue: ScheduledSync[] = [];
+  private cycleEndsAt = 0;
+  private running = false;
+
+  constructor(private storage: IStorage, private sync: SyncService, private intervalMs: number) {}
+
+  start() {
+    if (this.running || this.intervalMs <= 0) return;
+    this.running = true;
+    this.planCycle();
+  }
+
+  stop() {
+    this.running = false;
+    this.queue = [];
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Publishes each key's slot as nextSyncAt, then works through the queue
+  private async planCycle() {
+    const start = Date.now();
+    this.cycleEndsAt = start + this.intervalMs;
+
+    try {
+      const keys = await this.storage.getValidApiKeys();
+      const spacing = this.intervalMs / Math.max(keys.length, 1);
+      this.queue = keys.map((apiKey, i) => ({ apiKeyId: apiKey.id, at: start + Math.round(i * spacing) }));
+
+      for (const { apiKeyId, at } of this.queue) {
+        await this.storage.updateApiKey(apiKeyId, { nextSyncAt: new Date(at) });
+      }
+      if (keys.length > 0) log(`Scheduled ${keys.length} account syncs`, "scheduler");
+    } catch (error) {
+      log(`Sync scheduling failed: ${error instanceof Error ? error.message : error}`, "scheduler");
+      this.queue = [];
+    }
+
+    this.runNext();
+  }
+
+  private runNext() {
+    if (!this.running) return;
+
+    const next = this.queue.shift();
+    if (!next) {
+      this.timer = setTimeout(() => this.planCycle(), Math.max(0, this.cycleEndsAt - Date.now()));
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      await this.syncKey(next);
+      this.runNext();
+    }, Math.max(0, next.at - Date.now()));
+  }
+
+  private async syncKey({ apiKeyId, at }: ScheduledSync) {
+    // Re-read the key: it may have been invalidated since the cycle was planned
+    const apiKey = await this.storage.getApiKeyById(apiKeyId).catch(() => undefined);
+    if (!apiKey || !apiKey.isValid) {
+      log(`Skipping scheduled sync for invalid key ${apiKeyId}`, "scheduler");
+      return;
+    }
+
+    try {
+      // Same slot in the next cycle, unless the key list changes by then
+      await this.storage.updateApiKey(apiKeyId, { nextSyncAt: new Date(at + this.intervalMs) });
+      await this.sync.syncAccount(apiKey);
+    } catch (error) {
+      // syncAccount has already recorded the failure on the key
+      log(`Scheduled sync failed for ${apiKey.accountName ?? apiKeyId}: ${error instanceof Error ? error.message : error}`, "scheduler");
+    }
+  }
+}
+
+// SYNC_INTERVAL_MINUTES=0 turns scheduled syncing off
+export const syncScheduler = new SyncScheduler(
+  storage,
+  syncService,
+  parseFloat(process.env.SYNC_INTERVAL_MINUTES || String(DEFAULT_INTERVAL_MINUTES)) * 60 * 1000,
+);
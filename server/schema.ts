@@ -1,15 +1,30 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, jsonb, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, jsonb, timestamp, boolean, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// "partial" means some steps were skipped for missing permissions or failed
+export const syncStatuses = ["ok", "partial", "failed"] as const;
+export type SyncStatus = typeof syncStatuses[number];
+
 export const apiKeys = pgTable("api_keys", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  key: text("key").notNull(),
+  // AES-GCM ciphertext of the GW2 API key (see server/keyvault.ts)
+  encryptedKey: text("encrypted_key").notNull(),
+  // Keyed hash of the plaintext key, so records can be found without decrypting
+  keyHash: text("key_hash").notNull().unique(),
+  keyName: text("key_name"),
   accountName: text("account_name"),
+  // The GW2 account this key belongs to, set on sync; several keys can share one account
+  accountId: varchar("account_id"),
   permissions: jsonb("permissions").$type<string[]>(),
   isValid: boolean("is_valid").default(false),
   lastValidated: timestamp("last_validated"),
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastSyncStatus: text("last_sync_status").$type<SyncStatus>(),
+  lastSyncError: text("last_sync_error"),
+  // Set by the background scheduler; null when scheduled sync is off
+  nextSyncAt: timestamp("next_sync_at"),
   createdAt: timestamp("created_at").default(sql`now()`),
 });
 
@@ -26,9 +41,24 @@ export const accounts = pgTable("accounts", {
   wvwRank: integer("wvw_rank"),
   pvpRank: integer("pvp_rank"),
   achievementPoints: integer("achievement_points"),
+  // Length of /account/bank, 30 slots per unlocked bank tab
+  bankSlots: integer("bank_slots"),
+  // The key that last synced the account; keys find their account through api_keys.account_id
   apiKeyId: varchar("api_key_id").references(() => apiKeys.id),
 });
 
+export type StoredItemStack = {
+  id: number;
+  count: number;
+  binding?: "Account" | "Character";
+};
+
+export type StoredBag = {
+  id: number;
+  size: number;
+  inventory: (StoredItemStack | null)[];
+};
+
 export const characters = pgTable("characters", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -39,6 +69,10 @@ export const characters = pgTable("characters", {
   created: timestamp("created"),
   age: integer("age"),
   deaths: integer("deaths"),
+  // Elite specialization in the active build tab; null for core builds
+  eliteSpecialization: jsonb("elite_specialization").$type<{ id: number; name: string; icon: string }>(),
+  // Bag contents as of the last sync; null when the key lacks the inventories scope
+  bags: jsonb("bags").$type<(StoredBag | null)[]>(),
   accountId: varchar("account_id").references(() => accounts.id),
 });
 
@@ -54,6 +88,7 @@ export const bankItems = pgTable("bank_items", {
   itemId: integer("item_id"),
   count: integer("count"),
   slot: integer("slot"),
+  binding: text("binding").$type<"Account" | "Character">(),
   accountId: varchar("account_id").references(() => accounts.id),
 });
 
@@ -65,18 +100,96 @@ export const materials = pgTable("materials", {
   accountId: varchar("account_id").references(() => accounts.id),
 });
 
+// Activity types emitted by the sync diff
+export const activityTypes = ["gold", "currency", "material", "level", "character", "achievement"] as const;
+export type ActivityType = typeof activityTypes[number];
+
 export const activities = pgTable("activities", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   type: text("type").notNull(),
   description: text("description").notNull(),
   timestamp: timestamp("timestamp").default(sql`now()`),
   reward: text("reward"),
+  // Signed copper change for gold activities, so clients can render coins
+  amount: integer("amount"),
+  accountId: varchar("account_id").references(() => accounts.id),
+});
+
+// Point-in-time copy of an account taken at the end of every sync.
+// Each section is null when its sync step was skipped or failed, so it can't be diffed.
+export const accountSnapshots = pgTable("account_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  takenAt: timestamp("taken_at").notNull().default(sql`now()`),
+  achievementPoints: integer("achievement_points"),
+  wvwRank: integer("wvw_rank"),
+  fractalLevel: integer("fractal_level"),
+  wallet: jsonb("wallet").$type<{ currencyId: number; value: number }[]>(),
+  materials: jsonb("materials").$type<{ itemId: number; count: number }[]>(),
+  bank: jsonb("bank").$type<{ itemId: number; count: number; slot: number }[]>(),
+  characters: jsonb("characters").$type<{ name: string; level: number }[]>(),
+  completedAchievements: jsonb("completed_achievements").$type<number[]>(),
   accountId: varchar("account_id").references(() => accounts.id),
 });
 
+export type TradingPostTransaction = {
+  id: number;
+  itemId: number;
+  price: number;
+  quantity: number;
+  created: string;
+  purchased?: string;
+};
+
+// Latest trading post state per account, replaced on every sync
+export const tradingPost = pgTable("trading_post", {
+  accountId: varchar("account_id").primaryKey().references(() => accounts.id),
+  deliveryCoins: integer("delivery_coins").notNull().default(0),
+  deliveryItems: jsonb("delivery_items").$type<{ itemId: number; count: number }[]>().notNull(),
+  currentBuys: jsonb("current_buys").$type<TradingPostTransaction[]>().notNull(),
+  currentSells: jsonb("current_sells").$type<TradingPostTransaction[]>().notNull(),
+  historyBuys: jsonb("history_buys").$type<TradingPostTransaction[]>().notNull(),
+  historySells: jsonb("history_sells").$type<TradingPostTransaction[]>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Item metadata cached from /v2/items, one row per item and language
+export const itemCatalog = pgTable("item_catalog", {
+  id: integer("id").notNull(),
+  language: text("language").notNull().default("en"),
+  name: text("name").notNull(),
+  description: text("description"),
+  icon: text("icon"),
+  rarity: text("rarity"),
+  type: text("type"),
+  level: integer("level"),
+  vendorValue: integer("vendor_value"),
+  flags: jsonb("flags").$type<string[]>().notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  fetchedAt: timestamp("fetched_at").notNull().default(sql`now()`),
+}, (table) => [
+  primaryKey({ columns: [table.id, table.language] }),
+]);
+
+// Cached /v2/achievements definitions, shared by AP calculation and the achievements page
+export const achievementDefinitions = pgTable("achievement_definitions", {
+  id: integer("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  requirement: text("requirement").notNull().default(""),
+  icon: text("icon"),
+  type: text("type").notNull(),
+  flags: jsonb("flags").$type<string[]>().notNull(),
+  tiers: jsonb("tiers").$type<{ count: number; points: number }[]>().notNull(),
+  bits: jsonb("bits").$type<{ type: "Text" | "Item" | "Minipet" | "Skin"; id?: number; text?: string }[]>(),
+  rewards: jsonb("rewards").$type<{ type: "Coins" | "Item" | "Mastery" | "Title"; id?: number; count?: number; region?: string }[]>(),
+  pointCap: integer("point_cap"),
+  fetchedAt: timestamp("fetched_at").notNull().default(sql`now()`),
+});
+
 // Insert schemas
-export const insertApiKeySchema = createInsertSchema(apiKeys).pick({
-  key: true,
+// Keys arrive in plaintext and are sealed by storage before they are written
+export const insertApiKeySchema = z.object({
+  key: z.string().trim().min(1),
 });
 
 export const insertAccountSchema = createInsertSchema(accounts).omit({
@@ -95,9 +208,17 @@ export const insertActivitySchema = createInsertSchema(activities).omit({
   accountId: true,
 });
 
+export const insertAccountSnapshotSchema = createInsertSchema(accountSnapshots).omit({
+  id: true,
+  takenAt: true,
+  accountId: true,
+});
+
 // Types
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
-export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeyRecord = typeof apiKeys.$inferSelect;
+// What storage hands out: the record with its key decrypted
+export type ApiKey = Omit<ApiKeyRecord, "encryptedKey" | "keyHash"> & { key: string };
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
 export type Account = typeof accounts.$inferSelect;
 export type InsertCharacter = z.infer<typeof insertCharacterSchema>;
@@ -107,9 +228,20 @@ export type BankItem = typeof bankItems.$inferSelect;
 export type Material = typeof materials.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type Activity = typeof activities.$inferSelect;
+export type TradingPost = typeof tradingPost.$inferSelect;
+export type CatalogItem = typeof itemCatalog.$inferSelect;
+export type AchievementDefinition = typeof achievementDefinitions.$inferSelect;
+export type InsertAccountSnapshot = z.infer<typeof insertAccountSnapshotSchema>;
+export type AccountSnapshot = typeof accountSnapshots.$inferSelect;
 
 // Combined types for frontend
 export type AccountWithDetails = Account & {
+  keyName: string | null;
+  permissions: string[];
+  lastSyncedAt: Date | null;
+  lastSyncStatus: SyncStatus | null;
+  lastSyncError: string | null;
+  nextSyncAt: Date | null;
   characters: Character[];
   wallet: Wallet[];
   bankItems: BankItem[];
@@ -0,0 +1,67 @@
+import { gw2Client, type Gw2Client } from "./gw2";
+import { itemCatalog, type ItemCatalog } from "./catalog";
+import { collectHoldings, type ItemLocation } from "./holdings";
+import type { AccountWithDetails } from "./schema";
+
+export interface ItemSearchFilters {
+  q?: string;
+  rarity?: string;
+  type?: string;
+}
+
+export interface ItemSearchResult {
+  itemId: number;
+  name: string;
+  icon: string;
+  rarity: string;
+  type: string;
+  totalCount: number;
+  stacks: { location: ItemLocation; count: number }[];
+}
+
+// Finds owned items by name, rarity or type across every storage location
+export class ItemSearchService {
+  constructor(private client: Gw2Client, private catalog: ItemCatalog) {}
+
+  async search(account: AccountWithDetails, apiKey: string, filters: ItemSearchFilters): Promise<ItemSearchResult[]> {
+    const holdings = await collectHoldings(this.client, account, apiKey);
+    const items = await this.catalog.getItems(holdings.map(h => h.itemId));
+    const needle = filters.q?.trim().toLowerCase();
+
+    const matches = new Map(
+      items
+        .filter(item =>
+          (!needle || item.name.toLowerCase().includes(needle)) &&
+          (!filters.rarity || item.rarity === filters.rarity) &&
+          (!filters.type || item.type === filters.type)
+        )
+        .map(item => [item.id, item])
+    );
+
+    const results = new Map<number, ItemSearchResult>();
+    holdings.forEach(holding => {
+      const item = matches.get(holding.itemId);
+      if (!item) return;
+
+      let result = results.get(item.id);
+      if (!result) {
+        result = {
+          itemId: item.id,
+          name: item.name,
+          icon: item.icon,
+          rarity: item.rarity,
+          type: item.type,
+          totalCount: 0,
+          stacks: [],
+        };
+        results.set(item.id, result);
+      }
+      result.totalCount += holding.count;
+      result.stacks.push({ location: holding.location, count: holding.count });
+    });
+
+    return Array.from(results.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+export const itemSearchService = new ItemSearchService(gw2Client, itemCatalog);
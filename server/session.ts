@@ -0,0 +1,81 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+import { log } from "./logger";
+import type { ApiKey } from "./schema";
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+declare module "express-session" {
+  interface SessionData {
+    // GW2 account id -> api key id, for every account signed in from this browser
+    accounts: Record<string, string>;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Locals {
+      apiKey: ApiKey;
+    }
+  }
+}
+
+// Sessions live in Postgres next to the rest of the data, or in memory without a database
+export function createSessionMiddleware(): RequestHandler {
+  const isProduction = process.env.NODE_ENV === "production";
+
+  let store: session.Store;
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPg(session);
+    store = new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+      ttl: SESSION_TTL_MS / 1000,
+    });
+  } else {
+    const MemoryStore = createMemoryStore(session);
+    store = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  if (!process.env.SESSION_SECRET) {
+    if (isProduction) throw new Error("SESSION_SECRET must be set in production");
+    log("SESSION_SECRET not set, using an insecure development secret", "session");
+  }
+
+  return session({
+    secret: process.env.SESSION_SECRET || "tyrian-tracker-dev-secret",
+    store,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // The Vercel frontend and Render backend are different sites
+      secure: isProduction,
+      sameSite: isProduction ? "none" : "lax",
+      maxAge: SESSION_TTL_MS,
+    },
+  });
+}
+
+// Resolves :accountId to the session's api key, rejecting accounts this session never signed in to
+export const requireAccount: RequestHandler = async (req, res, next) => {
+  try {
+    const apiKeyId = req.session.accounts?.[req.params.accountId];
+    if (!apiKeyId) {
+      return res.status(401).json({ error: "Not signed in to this account" });
+    }
+
+    const apiKey = await storage.getApiKeyById(apiKeyId);
+    if (!apiKey || !apiKey.isValid) {
+      return res.status(404).json({ error: "API key not found or invalid" });
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,309 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DbStorage, MemStorage, type IStorage, type SnapshotRetention } from "./storage";
+import { KeyVault } from "./keyvault";
+import { createTestDatabase } from "./test-db";
+import type { Character, CatalogItem } from "./schema";
+
+const GW2_ACCOUNT = {
+  id: "account-1",
+  name: "Tester.1234",
+  world: 1001,
+  created: "2015-08-28T00:00:00Z",
+  access: ["GuildWars2"],
+  commander: true,
+  fractal_level: 100,
+  daily_ap: 5000,
+  monthly_ap: 1000,
+  wvw_rank: 50,
+  pvp_rank: 20,
+  achievement_points: 25000,
+};
+
+const character = (name: string, level: number): Character => ({
+  id: `character-${name}`,
+  name,
+  race: "Human",
+  gender: "Female",
+  profession: "Guardian",
+  level,
+  created: null,
+  age: 3600,
+  deaths: 1,
+  eliteSpecialization: null,
+  bags: null,
+  accountId: GW2_ACCOUNT.id,
+});
+
+const catalogItem = (id: number, fetchedAt: Date): CatalogItem => ({
+  id,
+  language: "en",
+  name: `Item ${id}`,
+  description: null,
+  icon: null,
+  rarity: "Fine",
+  type: "Trophy",
+  level: 0,
+  vendorValue: 8,
+  flags: [],
+  details: null,
+  fetchedAt,
+});
+
+const snapshot = (achievementPoints: number) => ({
+  achievementPoints,
+  wvwRank: 50,
+  fractalLevel: 100,
+  wallet: [{ currencyId: 1, value: 100 }],
+  materials: [],
+  bank: [],
+  characters: [{ name: "Alpha", level: 80 }],
+  completedAchievements: null,
+});
+
+// The same expectations hold for every IStorage implementation
+function storageContract(name: string, create: (retention?: SnapshotRetention) => IStorage) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    beforeEach(() => {
+      storage = create();
+    });
+
+    // Accounts reference their key, so most tests start from a synced account
+    async function createAccount() {
+      const apiKey = await storage.createApiKey({ key: "ABCD-1234" });
+      await storage.createOrUpdateAccount(GW2_ACCOUNT, apiKey.id);
+      return apiKey;
+    }
+
+    describe("api keys", () => {
+      it("hands out the decrypted key and finds it by value and id", async () => {
+        const created = await storage.createApiKey({ key: "ABCD-1234" });
+        assert.equal(created.key, "ABCD-1234");
+        assert.equal(created.isValid, false);
+
+        assert.equal((await storage.getApiKey("ABCD-1234"))?.id, created.id);
+        assert.equal((await storage.getApiKeyById(created.id))?.key, "ABCD-1234");
+        assert.equal(await storage.getApiKey("unknown"), undefined);
+        assert.equal(await storage.getApiKeyById("unknown"), undefined);
+      });
+
+      it("only lists valid keys", async () => {
+        const valid = await storage.createApiKey({ key: "valid" });
+        await storage.createApiKey({ key: "invalid" });
+        await storage.updateApiKey(valid.id, { isValid: true });
+
+        assert.deepEqual((await storage.getValidApiKeys()).map(k => k.key), ["valid"]);
+      });
+
+      it("updates fields but never the id or key", async () => {
+        const created = await storage.createApiKey({ key: "ABCD-1234" });
+        const updated = await storage.updateApiKey(created.id, {
+          id: "other",
+          key: "other",
+          permissions: ["account", "wallet"],
+          lastSyncStatus: "ok",
+        });
+
+        assert.equal(updated?.id, created.id);
+        assert.equal(updated?.key, "ABCD-1234");
+        assert.deepEqual(updated?.permissions, ["account", "wallet"]);
+        assert.equal(updated?.lastSyncStatus, "ok");
+        assert.equal(await storage.updateApiKey("unknown", { isValid: true }), undefined);
+      });
+
+      it("has nothing to rotate when every key uses the current secret", async () => {
+        await storage.createApiKey({ key: "ABCD-1234" });
+        assert.equal(await storage.rotateApiKeys(), 0);
+      });
+    });
+
+    describe("accounts", () => {
+      it("maps the GW2 account payload and keeps the bank size across updates", async () => {
+        const apiKey = await createAccount();
+        await storage.saveBankItems([], GW2_ACCOUNT.id, 60);
+        await storage.createOrUpdateAccount({ ...GW2_ACCOUNT, achievement_points: 26000 }, apiKey.id);
+
+        const account = await storage.getAccount(apiKey.id);
+        assert.equal(account?.name, "Tester.1234");
+        assert.equal(account?.fractalLevel, 100);
+        assert.equal(account?.achievementPoints, 26000);
+        assert.equal(account?.bankSlots, 60);
+        assert.equal(await storage.getAccount("unknown"), undefined);
+      });
+
+      it("keeps the stored achievement points when an update has none", async () => {
+        const apiKey = await createAccount();
+        const { achievement_points: _achievementPoints, ...withoutPoints } = GW2_ACCOUNT;
+        await storage.createOrUpdateAccount({ ...withoutPoints, fractal_level: 101 }, apiKey.id);
+
+        const account = await storage.getAccount(apiKey.id);
+        assert.equal(account?.fractalLevel, 101);
+        assert.equal(account?.achievementPoints, 25000);
+      });
+
+      it("resolves the account for every key that synced it", async () => {
+        const first = await createAccount();
+        const second = await storage.createApiKey({ key: "EFGH-5678" });
+        await storage.updateApiKey(first.id, { keyName: "first" });
+        await storage.updateApiKey(second.id, { keyName: "second" });
+        await storage.saveWallet([{ id: "w1", currencyId: 1, value: 500, accountId: GW2_ACCOUNT.id }], GW2_ACCOUNT.id);
+        await storage.createOrUpdateAccount({ ...GW2_ACCOUNT, fractal_level: 101 }, second.id);
+
+        const [viaFirst, viaSecond] = [await storage.getAccountWithDetails(first.id), await storage.getAccountWithDetails(second.id)];
+        assert.equal(viaFirst?.id, GW2_ACCOUNT.id);
+        assert.equal(viaFirst?.fractalLevel, 101);
+        assert.equal(viaFirst?.keyName, "first");
+        assert.equal(viaSecond?.keyName, "second");
+        assert.deepEqual(viaFirst?.wallet.map(w => w.value), [500]);
+        assert.deepEqual(viaSecond?.wallet.map(w => w.value), [500]);
+      });
+
+      it("returns the account with its key status and saved data", async () => {
+        const apiKey = await createAccount();
+        await storage.updateApiKey(apiKey.id, { keyName: "main", permissions: ["account"], lastSyncStatus: "partial" });
+        await storage.saveCharacters([character("Alpha", 80)], GW2_ACCOUNT.id);
+        await storage.saveWallet([{ id: "w1", currencyId: 1, value: 500, accountId: GW2_ACCOUNT.id }], GW2_ACCOUNT.id);
+        await storage.saveMaterials([{ id: "m1", itemId: 19697, category: 5, count: 250, accountId: GW2_ACCOUNT.id }], GW2_ACCOUNT.id);
+
+        const details = await storage.getAccountWithDetails(apiKey.id);
+        assert.equal(details?.keyName, "main");
+        assert.deepEqual(details?.permissions, ["account"]);
+        assert.equal(details?.lastSyncStatus, "partial");
+        assert.deepEqual(details?.characters.map(c => c.name), ["Alpha"]);
+        assert.deepEqual(details?.wallet.map(w => w.value), [500]);
+        assert.deepEqual(details?.materials.map(m => m.count), [250]);
+        assert.equal(await storage.getAccountWithDetails("unknown"), undefined);
+      });
+
+      it("replaces saved rows on every save", async () => {
+        const apiKey = await createAccount();
+        await storage.saveCharacters([character("Alpha", 79), character("Beta", 2)], GW2_ACCOUNT.id);
+        await storage.saveCharacters([character("Alpha", 80)], GW2_ACCOUNT.id);
+        await storage.saveBankItems([{ id: "b1", itemId: 1, count: 1, slot: 0, binding: null, accountId: GW2_ACCOUNT.id }], GW2_ACCOUNT.id, 30);
+        await storage.saveBankItems([], GW2_ACCOUNT.id, 30);
+
+        const details = await storage.getAccountWithDetails(apiKey.id);
+        assert.deepEqual(details?.characters.map(c => [c.name, c.level]), [["Alpha", 80]]);
+        assert.deepEqual(details?.bankItems, []);
+      });
+    });
+
+    describe("activities", () => {
+      it("lists the newest first, with paging and a type filter", async () => {
+        await createAccount();
+        for (const [index, type] of Array.from(["gold", "level", "gold"].entries())) {
+          await storage.saveActivity(
+            { type, description: `#${index}`, reward: null, amount: null, accountId: GW2_ACCOUNT.id },
+            GW2_ACCOUNT.id,
+          );
+          // Distinct timestamps so the order is well defined
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+
+        const recent = await storage.getRecentActivities(GW2_ACCOUNT.id, 10);
+        assert.deepEqual(recent.map(a => a.description), ["#2", "#1", "#0"]);
+        assert.deepEqual((await storage.getRecentActivities(GW2_ACCOUNT.id, 1, { offset: 1 })).map(a => a.description), ["#1"]);
+        assert.deepEqual((await storage.getRecentActivities(GW2_ACCOUNT.id, 10, { type: "gold" })).map(a => a.description), ["#2", "#0"]);
+      });
+    });
+
+    describe("snapshots", () => {
+      it("returns the latest and those within a range, oldest first", async () => {
+        await createAccount();
+        assert.equal(await storage.getLatestSnapshot(GW2_ACCOUNT.id), undefined);
+
+        const from = new Date(Date.now() - 1000);
+        await storage.saveSnapshot(snapshot(100), GW2_ACCOUNT.id);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await storage.saveSnapshot(snapshot(200), GW2_ACCOUNT.id);
+        const to = new Date(Date.now() + 1000);
+
+        assert.equal((await storage.getLatestSnapshot(GW2_ACCOUNT.id))?.achievementPoints, 200);
+        assert.deepEqual((await storage.getSnapshots(GW2_ACCOUNT.id, from, to)).map(s => s.achievementPoints), [100, 200]);
+        assert.deepEqual(await storage.getSnapshots(GW2_ACCOUNT.id, to, new Date(to.getTime() + 1000)), []);
+      });
+
+      it("keeps at most maxCount snapshots per account", async () => {
+        storage = create({ maxCount: 2, maxAgeDays: 90 });
+        await createAccount();
+        for (const points of [100, 200, 300]) {
+          await storage.saveSnapshot(snapshot(points), GW2_ACCOUNT.id);
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        await storage.saveSnapshot(snapshot(999), "account-2");
+
+        const all = await storage.getSnapshots(GW2_ACCOUNT.id, new Date(0), new Date(Date.now() + 1000));
+        assert.deepEqual(all.map(s => s.achievementPoints), [200, 300]);
+        assert.equal((await storage.getLatestSnapshot("account-2"))?.achievementPoints, 999);
+      });
+
+      it("drops snapshots older than maxAgeDays but never the newest", async () => {
+        storage = create({ maxCount: 100, maxAgeDays: 0 });
+        await createAccount();
+        await storage.saveSnapshot(snapshot(100), GW2_ACCOUNT.id);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await storage.saveSnapshot(snapshot(200), GW2_ACCOUNT.id);
+
+        const all = await storage.getSnapshots(GW2_ACCOUNT.id, new Date(0), new Date(Date.now() + 1000));
+        assert.deepEqual(all.map(s => s.achievementPoints), [200]);
+      });
+    });
+
+    describe("trading post", () => {
+      it("keeps one row per account", async () => {
+        await createAccount();
+        const data = { deliveryCoins: 0, deliveryItems: [], currentBuys: [], currentSells: [], historyBuys: [], historySells: [] };
+        await storage.saveTradingPost({ ...data, deliveryCoins: 100 }, GW2_ACCOUNT.id);
+        await storage.saveTradingPost({ ...data, deliveryCoins: 250 }, GW2_ACCOUNT.id);
+
+        assert.equal((await storage.getTradingPost(GW2_ACCOUNT.id))?.deliveryCoins, 250);
+        assert.equal(await storage.getTradingPost("unknown"), undefined);
+      });
+    });
+
+    describe("item catalog", () => {
+      it("looks items up per language and lists stale ones", async () => {
+        const old = new Date(Date.now() - 60_000);
+        await storage.saveCatalogItems([catalogItem(1, old), catalogItem(2, new Date())]);
+        await storage.saveCatalogItems([{ ...catalogItem(1, old), name: "Renamed" }]);
+
+        assert.deepEqual((await storage.getCatalogItems([1, 2, 3], "en")).map(i => i.name).sort(), ["Item 2", "Renamed"]);
+        assert.deepEqual(await storage.getCatalogItems([1], "de"), []);
+        assert.deepEqual(await storage.getStaleCatalogItems(new Date(Date.now() - 1000), 10), [{ id: 1, language: "en" }]);
+      });
+    });
+
+    describe("achievement definitions", () => {
+      it("saves and looks up definitions by id", async () => {
+        const definition = {
+          id: 1,
+          name: "Centaur Slayer",
+          description: "",
+          requirement: "Kill centaurs.",
+          icon: null,
+          type: "Default",
+          flags: ["Repeatable"],
+          tiers: [{ count: 100, points: 5 }],
+          bits: null,
+          rewards: null,
+          pointCap: 50,
+          fetchedAt: new Date(),
+        };
+        await storage.saveAchievementDefinitions([definition]);
+
+        const [saved] = await storage.getAchievementDefinitions([1, 2]);
+        assert.equal(saved.name, "Centaur Slayer");
+        assert.deepEqual(saved.tiers, [{ count: 100, points: 5 }]);
+        assert.equal(saved.pointCap, 50);
+        assert.deepEqual(await storage.getAchievementDefinitions([]), []);
+      });
+    });
+  });
+}
+
+const vault = () => new KeyVault(["test-secret"]);
+
+storageContract("MemStorage", retention => new MemStorage(vault(), retention));
+storageContract("DbStorage", retention => new DbStorage(createTestDatabase(), vault(), retention));
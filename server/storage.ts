@@ -1,5 +1,6 @@
 import { 
   type ApiKey, 
+  type ApiKeyRecord,
   type InsertApiKey, 
   type Account,
   type Character,
@@ -7,15 +8,61 @@ import {
   type BankItem,
   type Material,
   type Activity,
-  type AccountWithDetails 
+  type AccountSnapshot,
+  type TradingPost,
+  type CatalogItem,
+  type AchievementDefinition,
+  type AccountWithDetails,
+  apiKeys,
+  accounts,
+  characters as charactersTable,
+  wallet as walletTable,
+  bankItems as bankItemsTable,
+  materials as materialsTable,
+  activities as activitiesTable,
+  accountSnapshots,
+  tradingPost,
+  itemCatalog,
+  achievementDefinitions,
 } from "./schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, inArray, lt, lte, sql } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+import { log } from "./logger";
+import { keyVault, type KeyVault } from "./keyvault";
+
+export interface ActivityQueryOptions {
+  offset?: number;
+  type?: string;
+}
+
+// How many snapshots each account keeps. The newest is always kept so the
+// next sync has something to diff against.
+export interface SnapshotRetention {
+  maxCount: number;
+  maxAgeDays: number;
+}
+
+// Roughly three months of hourly scheduled syncs, with room for manual refreshes
+export const SNAPSHOT_RETENTION: SnapshotRetention = { maxCount: 2500, maxAgeDays: 90 };
+
+// Snapshots to drop from a newest-first list under the retention policy
+function expiredSnapshots<T extends Pick<AccountSnapshot, 'takenAt'>>(newestFirst: T[], retention: SnapshotRetention): T[] {
+  const cutoff = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  return newestFirst.filter((snapshot, index) =>
+    index > 0 && (index >= retention.maxCount || snapshot.takenAt.getTime() < cutoff)
+  );
+}
 
 export interface IStorage {
   // API Key management
   createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
   getApiKey(key: string): Promise<ApiKey | undefined>;
-  updateApiKey(key: string, data: Partial<ApiKey>): Promise<ApiKey | undefined>;
+  getApiKeyById(id: string): Promise<ApiKey | undefined>;
+  getValidApiKeys(): Promise<ApiKey[]>;
+  updateApiKey(id: string, data: Partial<ApiKey>): Promise<ApiKey | undefined>;
+  // Re-seals keys still encrypted with a previous secret; returns how many changed
+  rotateApiKeys(): Promise<number>;
   
   // Account management
   createOrUpdateAccount(accountData: any, apiKeyId: string): Promise<Account>;
@@ -29,26 +76,79 @@ export interface IStorage {
   saveWallet(wallet: Wallet[], accountId: string): Promise<Wallet[]>;
   
   // Bank items
-  saveBankItems(items: BankItem[], accountId: string): Promise<BankItem[]>;
+  saveBankItems(items: BankItem[], accountId: string, slotCount: number): Promise<BankItem[]>;
   
   // Materials
   saveMaterials(materials: Material[], accountId: string): Promise<Material[]>;
   
   // Activities
   saveActivity(activity: Omit<Activity, 'id' | 'timestamp'>, accountId: string): Promise<Activity>;
-  getRecentActivities(accountId: string, limit?: number): Promise<Activity[]>;
+  getRecentActivities(accountId: string, limit?: number, options?: ActivityQueryOptions): Promise<Activity[]>;
+
+  // Snapshots; saving one prunes the account's history to the retention policy
+  saveSnapshot(snapshot: Omit<AccountSnapshot, 'id' | 'takenAt' | 'accountId'>, accountId: string): Promise<AccountSnapshot>;
+  getSnapshots(accountId: string, from: Date, to: Date): Promise<AccountSnapshot[]>;
+  getLatestSnapshot(accountId: string): Promise<AccountSnapshot | undefined>;
+
+  // Trading post
+  saveTradingPost(data: Omit<TradingPost, 'accountId' | 'updatedAt'>, accountId: string): Promise<TradingPost>;
+  getTradingPost(accountId: string): Promise<TradingPost | undefined>;
+
+  // Item catalog cache
+  getCatalogItems(ids: number[], language: string): Promise<CatalogItem[]>;
+  saveCatalogItems(items: CatalogItem[]): Promise<void>;
+  getStaleCatalogItems(fetchedBefore: Date, limit: number): Promise<Pick<CatalogItem, 'id' | 'language'>[]>;
+
+  // Achievement definitions
+  getAchievementDefinitions(ids: number[]): Promise<AchievementDefinition[]>;
+  saveAchievementDefinitions(definitions: AchievementDefinition[]): Promise<void>;
+}
+
+// Encrypted columns for a plaintext API key
+function sealApiKey(vault: KeyVault, key: string): Pick<ApiKeyRecord, 'encryptedKey' | 'keyHash'> {
+  return { encryptedKey: vault.encrypt(key), keyHash: vault.hash(key) };
+}
+
+function openApiKey(vault: KeyVault, record: ApiKeyRecord): ApiKey {
+  const { encryptedKey, keyHash: _keyHash, ...rest } = record;
+  return { ...rest, key: vault.decrypt(encryptedKey) };
+}
+
+// Maps a raw GW2 /account payload onto our Account row
+// Bank size is set by saveBankItems, not from /account
+function toAccount(accountData: any, apiKeyId: string): Omit<Account, 'bankSlots'> {
+  return {
+    id: accountData.id,
+    name: accountData.name,
+    world: accountData.world,
+    created: accountData.created ? new Date(accountData.created) : null,
+    access: accountData.access || [],
+    commander: accountData.commander || false,
+    fractalLevel: accountData.fractal_level || 0,
+    dailyAp: accountData.daily_ap || 0,
+    monthlyAp: accountData.monthly_ap || 0,
+    wvwRank: accountData.wvw_rank || 0,
+    pvpRank: accountData.pvp_rank || 0,
+    // Null when progression wasn't synced; the stores then keep the previous total
+    achievementPoints: accountData.achievement_points ?? null,
+    apiKeyId,
+  };
 }
 
 export class MemStorage implements IStorage {
-  private apiKeys: Map<string, ApiKey>;
+  private apiKeys: Map<string, ApiKeyRecord>;
   private accounts: Map<string, Account>;
   private characters: Map<string, Character[]>;
   private wallet: Map<string, Wallet[]>;
   private bankItems: Map<string, BankItem[]>;
   private materials: Map<string, Material[]>;
   private activities: Map<string, Activity[]>;
+  private snapshots: Map<string, AccountSnapshot[]>;
+  private tradingPost: Map<string, TradingPost>;
+  private catalog: Map<string, CatalogItem>;
+  private achievementDefinitions: Map<number, AchievementDefinition>;
 
-  constructor() {
+  constructor(private vault: KeyVault, private snapshotRetention: SnapshotRetention = SNAPSHOT_RETENTION) {
     this.apiKeys = new Map();
     this.accounts = new Map();
     this.characters = new Map();
@@ -56,76 +156,111 @@ export class MemStorage implements IStorage {
     this.bankItems = new Map();
     this.materials = new Map();
     this.activities = new Map();
+    this.snapshots = new Map();
+    this.tradingPost = new Map();
+    this.catalog = new Map();
+    this.achievementDefinitions = new Map();
   }
 
   async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
     const id = randomUUID();
-    const newApiKey: ApiKey = {
+    const record: ApiKeyRecord = {
       id,
-      key: apiKey.key,
+      ...sealApiKey(this.vault, apiKey.key),
+      keyName: null,
       accountName: null,
+      accountId: null,
       permissions: null,
       isValid: false,
       lastValidated: null,
+      lastSyncedAt: null,
+      lastSyncStatus: null,
+      lastSyncError: null,
+      nextSyncAt: null,
       createdAt: new Date(),
     };
-    this.apiKeys.set(apiKey.key, newApiKey);
-    return newApiKey;
+    this.apiKeys.set(id, record);
+    return openApiKey(this.vault, record);
   }
 
   async getApiKey(key: string): Promise<ApiKey | undefined> {
-    return this.apiKeys.get(key);
+    const hashes = this.vault.lookupHashes(key);
+    const record = Array.from(this.apiKeys.values()).find(k => hashes.includes(k.keyHash));
+    return record && openApiKey(this.vault, record);
   }
 
-  async updateApiKey(key: string, data: Partial<ApiKey>): Promise<ApiKey | undefined> {
-    const existing = this.apiKeys.get(key);
+  async getApiKeyById(id: string): Promise<ApiKey | undefined> {
+    const record = this.apiKeys.get(id);
+    return record && openApiKey(this.vault, record);
+  }
+
+  async getValidApiKeys(): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(k => k.isValid)
+      .map(record => openApiKey(this.vault, record));
+  }
+
+  async updateApiKey(id: string, data: Partial<ApiKey>): Promise<ApiKey | undefined> {
+    const existing = this.apiKeys.get(id);
     if (!existing) return undefined;
     
-    const updated = { ...existing, ...data };
-    this.apiKeys.set(key, updated);
-    return updated;
+    const { id: _id, key: _key, ...changes } = data;
+    const updated = { ...existing, ...changes };
+    this.apiKeys.set(id, updated);
+    return openApiKey(this.vault, updated);
+  }
+
+  async rotateApiKeys(): Promise<number> {
+    const stale = Array.from(this.apiKeys.values()).filter(k => !this.vault.isCurrent(k.encryptedKey));
+    stale.forEach(record => {
+      this.apiKeys.set(record.id, { ...record, ...sealApiKey(this.vault, this.vault.decrypt(record.encryptedKey)) });
+    });
+    return stale.length;
   }
 
   async createOrUpdateAccount(accountData: any, apiKeyId: string): Promise<Account> {
     console.log('Raw GW2 API account data:', JSON.stringify(accountData, null, 2));
     
-    const account: Account = {
-      id: accountData.id,
-      name: accountData.name,
-      world: accountData.world,
-      created: accountData.created ? new Date(accountData.created) : null,
-      access: accountData.access || [],
-      commander: accountData.commander || false,
-      fractalLevel: accountData.fractal_level || 0,
-      dailyAp: accountData.daily_ap || 0,
-      monthlyAp: accountData.monthly_ap || 0,
-      wvwRank: accountData.wvw_rank || 0,
-      pvpRank: accountData.pvp_rank || 0,
-      achievementPoints: accountData.achievement_points || 0,
-      apiKeyId,
+    const previous = this.accounts.get(accountData.id);
+    const updated = toAccount(accountData, apiKeyId);
+    const account = {
+      ...updated,
+      achievementPoints: updated.achievementPoints ?? previous?.achievementPoints ?? null,
+      bankSlots: previous?.bankSlots ?? null,
     };
     
     console.log('Processed account data:', JSON.stringify(account, null, 2));
     
-    this.accounts.set(apiKeyId, account);
+    this.accounts.set(account.id, account);
+    const apiKey = this.apiKeys.get(apiKeyId);
+    if (apiKey) apiKey.accountId = account.id;
     return account;
   }
 
   async getAccount(apiKeyId: string): Promise<Account | undefined> {
-    return this.accounts.get(apiKeyId);
+    const accountId = this.apiKeys.get(apiKeyId)?.accountId;
+    return accountId ? this.accounts.get(accountId) : undefined;
   }
 
   async getAccountWithDetails(apiKeyId: string): Promise<AccountWithDetails | undefined> {
-    const account = this.accounts.get(apiKeyId);
+    const account = await this.getAccount(apiKeyId);
     if (!account) return undefined;
 
+    const apiKey = this.apiKeys.get(apiKeyId);
+
     return {
       ...account,
+      keyName: apiKey?.keyName ?? null,
+      permissions: apiKey?.permissions ?? [],
+      lastSyncedAt: apiKey?.lastSyncedAt ?? null,
+      lastSyncStatus: apiKey?.lastSyncStatus ?? null,
+      lastSyncError: apiKey?.lastSyncError ?? null,
+      nextSyncAt: apiKey?.nextSyncAt ?? null,
       characters: this.characters.get(account.id) || [],
       wallet: this.wallet.get(account.id) || [],
       bankItems: this.bankItems.get(account.id) || [],
       materials: this.materials.get(account.id) || [],
-      activities: this.activities.get(account.id) || [],
+      activities: (this.activities.get(account.id) || []).slice(0, 50),
     };
   }
 
@@ -139,8 +274,10 @@ export class MemStorage implements IStorage {
     return wallet;
   }
 
-  async saveBankItems(items: BankItem[], accountId: string): Promise<BankItem[]> {
+  async saveBankItems(items: BankItem[], accountId: string, slotCount: number): Promise<BankItem[]> {
     this.bankItems.set(accountId, items);
+    const account = this.accounts.get(accountId);
+    if (account) account.bankSlots = slotCount;
     return items;
   }
 
@@ -159,15 +296,406 @@ export class MemStorage implements IStorage {
 
     const existing = this.activities.get(accountId) || [];
     existing.unshift(newActivity);
-    this.activities.set(accountId, existing.slice(0, 50)); // Keep only recent 50
+    this.activities.set(accountId, existing.slice(0, 500)); // Keep only recent 500
 
     return newActivity;
   }
 
-  async getRecentActivities(accountId: string, limit = 10): Promise<Activity[]> {
-    const activities = this.activities.get(accountId) || [];
-    return activities.slice(0, limit);
+  async getRecentActivities(accountId: string, limit = 10, options: ActivityQueryOptions = {}): Promise<Activity[]> {
+    const { offset = 0, type } = options;
+    const activities = (this.activities.get(accountId) || [])
+      .filter(activity => !type || activity.type === type);
+    return activities.slice(offset, offset + limit);
+  }
+
+  async saveSnapshot(snapshot: Omit<AccountSnapshot, 'id' | 'takenAt' | 'accountId'>, accountId: string): Promise<AccountSnapshot> {
+    const newSnapshot: AccountSnapshot = {
+      id: randomUUID(),
+      takenAt: new Date(),
+      ...snapshot,
+      accountId,
+    };
+
+    const existing = this.snapshots.get(accountId) || [];
+    existing.push(newSnapshot);
+    const expired = new Set(expiredSnapshots(existing.slice().reverse(), this.snapshotRetention));
+    this.snapshots.set(accountId, existing.filter(s => !expired.has(s)));
+
+    return newSnapshot;
+  }
+
+  async getSnapshots(accountId: string, from: Date, to: Date): Promise<AccountSnapshot[]> {
+    const snapshots = this.snapshots.get(accountId) || [];
+    return snapshots.filter(s => s.takenAt >= from && s.takenAt <= to);
   }
+
+  async getLatestSnapshot(accountId: string): Promise<AccountSnapshot | undefined> {
+    const snapshots = this.snapshots.get(accountId) || [];
+    return snapshots[snapshots.length - 1];
+  }
+
+  async saveTradingPost(data: Omit<TradingPost, 'accountId' | 'updatedAt'>, accountId: string): Promise<TradingPost> {
+    const saved: TradingPost = { ...data, accountId, updatedAt: new Date() };
+    this.tradingPost.set(accountId, saved);
+    return saved;
+  }
+
+  async getTradingPost(accountId: string): Promise<TradingPost | undefined> {
+    return this.tradingPost.get(accountId);
+  }
+
+  async getCatalogItems(ids: number[], language: string): Promise<CatalogItem[]> {
+    return ids
+      .map(id => this.catalog.get(`${language}:${id}`))
+      .filter((item): item is CatalogItem => item !== undefined);
+  }
+
+  async saveCatalogItems(items: CatalogItem[]): Promise<void> {
+    items.forEach(item => this.catalog.set(`${item.language}:${item.id}`, item));
+  }
+
+  async getStaleCatalogItems(fetchedBefore: Date, limit: number): Promise<Pick<CatalogItem, 'id' | 'language'>[]> {
+    return Array.from(this.catalog.values())
+      .filter(item => item.fetchedAt < fetchedBefore)
+      .slice(0, limit)
+      .map(({ id, language }) => ({ id, language }));
+  }
+
+  async getAchievementDefinitions(ids: number[]): Promise<AchievementDefinition[]> {
+    return ids
+      .map(id => this.achievementDefinitions.get(id))
+      .filter((definition): definition is AchievementDefinition => definition !== undefined);
+  }
+
+  async saveAchievementDefinitions(definitions: AchievementDefinition[]): Promise<void> {
+    definitions.forEach(definition => this.achievementDefinitions.set(definition.id, definition));
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(
+    private db: Database,
+    private vault: KeyVault,
+    private snapshotRetention: SnapshotRetention = SNAPSHOT_RETENTION,
+  ) {}
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const [record] = await this.db
+      .insert(apiKeys)
+      .values({ id: randomUUID(), ...sealApiKey(this.vault, apiKey.key) })
+      .returning();
+    return openApiKey(this.vault, record);
+  }
+
+  async getApiKey(key: string): Promise<ApiKey | undefined> {
+    const [record] = await this.db
+      .select()
+      .from(apiKeys)
+      .where(inArray(apiKeys.keyHash, this.vault.lookupHashes(key)));
+    return record && openApiKey(this.vault, record);
+  }
+
+  async getApiKeyById(id: string): Promise<ApiKey | undefined> {
+    const [record] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return record && openApiKey(this.vault, record);
+  }
+
+  async getValidApiKeys(): Promise<ApiKey[]> {
+    const records = await this.db.select().from(apiKeys).where(eq(apiKeys.isValid, true)).orderBy(apiKeys.createdAt);
+    return records.map(record => openApiKey(this.vault, record));
+  }
+
+  async updateApiKey(id: string, data: Partial<ApiKey>): Promise<ApiKey | undefined> {
+    const { id: _id, key: _key, ...changes } = data;
+    if (Object.keys(changes).length === 0) return this.getApiKeyById(id);
+
+    const [updated] = await this.db
+      .update(apiKeys)
+      .set(changes)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    return updated && openApiKey(this.vault, updated);
+  }
+
+  async rotateApiKeys(): Promise<number> {
+    const records = await this.db.select().from(apiKeys);
+    const stale = records.filter(k => !this.vault.isCurrent(k.encryptedKey));
+
+    for (const record of stale) {
+      await this.db
+        .update(apiKeys)
+        .set(sealApiKey(this.vault, this.vault.decrypt(record.encryptedKey)))
+        .where(eq(apiKeys.id, record.id));
+    }
+    return stale.length;
+  }
+
+  async createOrUpdateAccount(accountData: any, apiKeyId: string): Promise<Account> {
+    const { id: _id, ...changes } = toAccount(accountData, apiKeyId);
+
+    return this.db.transaction(async (tx) => {
+      const [account] = await tx
+        .insert(accounts)
+        .values({ id: accountData.id, ...changes })
+        .onConflictDoUpdate({
+          target: accounts.id,
+          set: { ...changes, achievementPoints: sql`coalesce(excluded.achievement_points, ${accounts.achievementPoints})` },
+        })
+        .returning();
+      await tx.update(apiKeys).set({ accountId: account.id }).where(eq(apiKeys.id, apiKeyId));
+      return account;
+    });
+  }
+
+  async getAccount(apiKeyId: string): Promise<Account | undefined> {
+    const [apiKey] = await this.db.select({ accountId: apiKeys.accountId }).from(apiKeys).where(eq(apiKeys.id, apiKeyId));
+    if (!apiKey) return undefined;
+
+    // Keys that haven't synced since account_id was added are still found through the account
+    const [account] = await this.db
+      .select()
+      .from(accounts)
+      .where(apiKey.accountId ? eq(accounts.id, apiKey.accountId) : eq(accounts.apiKeyId, apiKeyId));
+    return account;
+  }
+
+  async getAccountWithDetails(apiKeyId: string): Promise<AccountWithDetails | undefined> {
+    const account = await this.getAccount(apiKeyId);
+    if (!account) return undefined;
+
+    const [[apiKey], characters, wallet, bankItems, materials, activities] = await Promise.all([
+      this.db.select().from(apiKeys).where(eq(apiKeys.id, apiKeyId)),
+      this.db.select().from(charactersTable).where(eq(charactersTable.accountId, account.id)),
+      this.db.select().from(walletTable).where(eq(walletTable.accountId, account.id)),
+      this.db.select().from(bankItemsTable).where(eq(bankItemsTable.accountId, account.id)).orderBy(bankItemsTable.slot),
+      this.db.select().from(materialsTable).where(eq(materialsTable.accountId, account.id)),
+      this.getRecentActivities(account.id, 50),
+    ]);
+
+    return {
+      ...account,
+      keyName: apiKey?.keyName ?? null,
+      permissions: apiKey?.permissions ?? [],
+      lastSyncedAt: apiKey?.lastSyncedAt ?? null,
+      lastSyncStatus: apiKey?.lastSyncStatus ?? null,
+      lastSyncError: apiKey?.lastSyncError ?? null,
+      nextSyncAt: apiKey?.nextSyncAt ?? null,
+      characters,
+      wallet,
+      bankItems,
+      materials,
+      activities,
+    };
+  }
+
+  // Each save replaces the account's previous rows, matching MemStorage
+  async saveCharacters(characters: Character[], accountId: string): Promise<Character[]> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(charactersTable).where(eq(charactersTable.accountId, accountId));
+      if (characters.length > 0) {
+        await tx.insert(charactersTable).values(characters.map(c => ({ ...c, accountId })));
+      }
+    });
+    return characters;
+  }
+
+  async saveWallet(wallet: Wallet[], accountId: string): Promise<Wallet[]> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(walletTable).where(eq(walletTable.accountId, accountId));
+      if (wallet.length > 0) {
+        await tx.insert(walletTable).values(wallet.map(w => ({ ...w, accountId })));
+      }
+    });
+    return wallet;
+  }
+
+  async saveBankItems(items: BankItem[], accountId: string, slotCount: number): Promise<BankItem[]> {
+    await this.db.transaction(async (tx) => {
+      await tx.update(accounts).set({ bankSlots: slotCount }).where(eq(accounts.id, accountId));
+      await tx.delete(bankItemsTable).where(eq(bankItemsTable.accountId, accountId));
+      if (items.length > 0) {
+        await tx.insert(bankItemsTable).values(items.map(i => ({ ...i, accountId })));
+      }
+    });
+    return items;
+  }
+
+  async saveMaterials(materials: Material[], accountId: string): Promise<Material[]> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(materialsTable).where(eq(materialsTable.accountId, accountId));
+      if (materials.length > 0) {
+        await tx.insert(materialsTable).values(materials.map(m => ({ ...m, accountId })));
+      }
+    });
+    return materials;
+  }
+
+  async saveActivity(activity: Omit<Activity, 'id' | 'timestamp'>, accountId: string): Promise<Activity> {
+    const [newActivity] = await this.db
+      .insert(activitiesTable)
+      .values({
+        ...activity,
+        id: randomUUID(),
+        timestamp: new Date(),
+        accountId,
+      })
+      .returning();
+    return newActivity;
+  }
+
+  async getRecentActivities(accountId: string, limit = 10, options: ActivityQueryOptions = {}): Promise<Activity[]> {
+    const { offset = 0, type } = options;
+    return this.db
+      .select()
+      .from(activitiesTable)
+      .where(and(
+        eq(activitiesTable.accountId, accountId),
+        type ? eq(activitiesTable.type, type) : undefined,
+      ))
+      .orderBy(desc(activitiesTable.timestamp))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async saveSnapshot(snapshot: Omit<AccountSnapshot, 'id' | 'takenAt' | 'accountId'>, accountId: string): Promise<AccountSnapshot> {
+    const [newSnapshot] = await this.db
+      .insert(accountSnapshots)
+      .values({
+        ...snapshot,
+        id: randomUUID(),
+        takenAt: new Date(),
+        accountId,
+      })
+      .returning();
+
+    const history = await this.db
+      .select({ id: accountSnapshots.id, takenAt: accountSnapshots.takenAt })
+      .from(accountSnapshots)
+      .where(eq(accountSnapshots.accountId, accountId))
+      .orderBy(desc(accountSnapshots.takenAt));
+    const expired = expiredSnapshots(history, this.snapshotRetention).map(s => s.id);
+    if (expired.length > 0) {
+      await this.db.delete(accountSnapshots).where(inArray(accountSnapshots.id, expired));
+    }
+    return newSnapshot;
+  }
+
+  async getSnapshots(accountId: string, from: Date, to: Date): Promise<AccountSnapshot[]> {
+    return this.db
+      .select()
+      .from(accountSnapshots)
+      .where(and(
+        eq(accountSnapshots.accountId, accountId),
+        gte(accountSnapshots.takenAt, from),
+        lte(accountSnapshots.takenAt, to),
+      ))
+      .orderBy(asc(accountSnapshots.takenAt));
+  }
+
+  async getLatestSnapshot(accountId: string): Promise<AccountSnapshot | undefined> {
+    const [snapshot] = await this.db
+      .select()
+      .from(accountSnapshots)
+      .where(eq(accountSnapshots.accountId, accountId))
+      .orderBy(desc(accountSnapshots.takenAt))
+      .limit(1);
+    return snapshot;
+  }
+
+  async saveTradingPost(data: Omit<TradingPost, 'accountId' | 'updatedAt'>, accountId: string): Promise<TradingPost> {
+    const changes = { ...data, updatedAt: new Date() };
+    const [saved] = await this.db
+      .insert(tradingPost)
+      .values({ ...changes, accountId })
+      .onConflictDoUpdate({ target: tradingPost.accountId, set: changes })
+      .returning();
+    return saved;
+  }
+
+  async getTradingPost(accountId: string): Promise<TradingPost | undefined> {
+    const [saved] = await this.db.select().from(tradingPost).where(eq(tradingPost.accountId, accountId));
+    return saved;
+  }
+
+  async getCatalogItems(ids: number[], language: string): Promise<CatalogItem[]> {
+    if (ids.length === 0) return [];
+    return this.db
+      .select()
+      .from(itemCatalog)
+      .where(and(inArray(itemCatalog.id, ids), eq(itemCatalog.language, language)));
+  }
+
+  async saveCatalogItems(items: CatalogItem[]): Promise<void> {
+    // Batched to stay under Postgres' bind parameter limit on a large refresh
+    for (let i = 0; i < items.length; i += 1000) {
+      await this.db
+        .insert(itemCatalog)
+        .values(items.slice(i, i + 1000))
+        .onConflictDoUpdate({
+          target: [itemCatalog.id, itemCatalog.language],
+          set: {
+            name: sql`excluded.name`,
+            description: sql`excluded.description`,
+            icon: sql`excluded.icon`,
+            rarity: sql`excluded.rarity`,
+            type: sql`excluded.type`,
+            level: sql`excluded.level`,
+            vendorValue: sql`excluded.vendor_value`,
+            flags: sql`excluded.flags`,
+            details: sql`excluded.details`,
+            fetchedAt: sql`excluded.fetched_at`,
+          },
+        });
+    }
+  }
+
+  async getStaleCatalogItems(fetchedBefore: Date, limit: number): Promise<Pick<CatalogItem, 'id' | 'language'>[]> {
+    return this.db
+      .select({ id: itemCatalog.id, language: itemCatalog.language })
+      .from(itemCatalog)
+      .where(lt(itemCatalog.fetchedAt, fetchedBefore))
+      .orderBy(asc(itemCatalog.fetchedAt))
+      .limit(limit);
+  }
+
+  async getAchievementDefinitions(ids: number[]): Promise<AchievementDefinition[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(achievementDefinitions).where(inArray(achievementDefinitions.id, ids));
+  }
+
+  async saveAchievementDefinitions(definitions: AchievementDefinition[]): Promise<void> {
+    // Batched to stay under Postgres' bind parameter limit on a full account's worth
+    for (let i = 0; i < definitions.length; i += 1000) {
+      await this.db
+        .insert(achievementDefinitions)
+        .values(definitions.slice(i, i + 1000))
+        .onConflictDoUpdate({
+          target: achievementDefinitions.id,
+          set: {
+            name: sql`excluded.name`,
+            description: sql`excluded.description`,
+            requirement: sql`excluded.requirement`,
+            icon: sql`excluded.icon`,
+            type: sql`excluded.type`,
+            flags: sql`excluded.flags`,
+            tiers: sql`excluded.tiers`,
+            bits: sql`excluded.bits`,
+            rewards: sql`excluded.rewards`,
+            pointCap: sql`excluded.point_cap`,
+            fetchedAt: sql`excluded.fetched_at`,
+          },
+        });
+    }
+  }
+}
+
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) {
+    log("DATABASE_URL not set, using in-memory storage", "storage");
+    return new MemStorage(keyVault);
+  }
+
+  return new DbStorage(createDatabase(process.env.DATABASE_URL), keyVault);
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
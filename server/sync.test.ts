@@ -0,0 +1,177 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SyncService } from "./sync";
+import { MemStorage } from "./storage";
+import { KeyVault } from "./keyvault";
+import { ItemCatalog } from "./catalog";
+import { AchievementDefinitionCache } from "./achievements";
+import { byPath, json, standIn } from "./test-gw2";
+import type { ApiKey } from "./schema";
+
+const HOUR = 60 * 60 * 1000;
+
+const GW2_ACCOUNT = { id: "account-1", name: "Tester.1234", world: 1001, created: "2015-08-28T00:00:00Z", daily_ap: 500, monthly_ap: 40 };
+
+// Upstream responses by path; tests override entries to simulate failures
+function defaultRoutes(permissions: string[]): Record<string, () => Response> {
+  return {
+    "/v2/tokeninfo": () => json({ id: "key-1", name: "main", permissions }),
+    "/v2/account": () => json(GW2_ACCOUNT),
+    "/v2/account/achievements": () => json([]),
+    "/v2/characters": () => json([{ name: "Alpha", race: "Human", gender: "Female", profession: "Guardian", level: 80, age: 1, created: "2020-01-01T00:00:00Z", deaths: 0, bags: [{ id: 8932, size: 20, inventory: [{ id: 24, count: 3, upgrades: [1] }, null] }] }]),
+    "/v2/account/wallet": () => json([{ id: 1, value: 1000 }]),
+    "/v2/account/bank": () => json([{ id: 19697, count: 5 }, null, { id: 20000, count: 1, binding: "Account" }]),
+    "/v2/account/materials": () => json([{ id: 19697, category: 5, count: 250 }]),
+    "/v2/commerce/delivery": () => json({ coins: 0, items: [] }),
+    "/v2/commerce/transactions/current/buys": () => json([]),
+    "/v2/commerce/transactions/current/sells": () => json([]),
+    "/v2/commerce/transactions/history/buys": () => json([]),
+    "/v2/commerce/transactions/history/sells": () => json([]),
+  };
+}
+
+const ALL_PERMISSIONS = ["account", "wallet", "inventories", "characters", "builds", "tradingpost", "progression"];
+
+// Alpha with an active build tab running the Firebrand elite line
+const BUILD_CHARACTER = {
+  name: "Alpha", race: "Human", gender: "Female", profession: "Guardian", level: 80, age: 1, created: "2020-01-01T00:00:00Z", deaths: 0,
+  build_tabs: [{ tab: 1, is_active: true, build: { specializations: [{ id: 42 }, { id: 62 }] } }],
+};
+const SPECIALIZATIONS = [{ id: 42, name: "Zeal", icon: "zeal.png", elite: false }, { id: 62, name: "Firebrand", icon: "firebrand.png", elite: true }];
+
+describe("SyncService", () => {
+  let storage: MemStorage;
+  let routes: Record<string, () => Response>;
+  let apiKey: ApiKey;
+  let sync: SyncService;
+
+  beforeEach(async () => {
+    storage = new MemStorage(new KeyVault(["test-secret"]));
+    routes = defaultRoutes(ALL_PERMISSIONS);
+    const { client } = standIn(byPath(() => routes), { maxRetries: 0 });
+    sync = new SyncService(storage, client, new ItemCatalog(storage, client, HOUR), new AchievementDefinitionCache(storage, client, HOUR));
+    apiKey = await storage.createApiKey({ key: "ABCD-1234" });
+  });
+
+  it("syncs every step the key allows", async () => {
+    const result = await sync.syncAccount(apiKey);
+
+    assert.equal(result.status, "ok");
+    assert.deepEqual(result.skipped, []);
+    assert.deepEqual(result.failed, []);
+    assert.deepEqual(result.account?.wallet.map(w => w.value), [1000]);
+    assert.deepEqual(result.account?.bankItems.map(b => [b.count, b.binding]), [[5, null], [1, "Account"]]);
+    assert.deepEqual(result.account?.characters[0].bags, [{ id: 8932, size: 20, inventory: [{ id: 24, count: 3, binding: undefined }, null] }]);
+    assert.equal((await storage.getApiKeyById(apiKey.id))?.lastSyncStatus, "ok");
+  });
+
+  it("skips steps whose permission is missing", async () => {
+    routes = defaultRoutes(["account", "characters"]);
+
+    const result = await sync.syncAccount(apiKey);
+
+    assert.equal(result.status, "partial");
+    assert.deepEqual(result.skipped.map(s => s.step).sort(), ["builds", "inventories", "progression", "tradingpost", "wallet"]);
+    assert.deepEqual(result.account?.wallet, []);
+    assert.deepEqual(result.account?.characters.map(c => c.name), ["Alpha"]);
+
+    // Skipped sections are left out of the snapshot rather than stored as empty
+    const snapshot = await storage.getLatestSnapshot("account-1");
+    assert.equal(snapshot?.wallet, null);
+    assert.equal(snapshot?.materials, null);
+    assert.equal(snapshot?.bank, null);
+    assert.deepEqual(snapshot?.characters, [{ name: "Alpha", level: 80 }]);
+  });
+
+  it("records a failing step and still runs the others", async () => {
+    routes["/v2/account/wallet"] = () => json({ text: "internal error" }, 500);
+
+    const result = await sync.syncAccount(apiKey);
+
+    assert.equal(result.status, "partial");
+    assert.deepEqual(result.failed.map(f => f.step), ["wallet"]);
+    assert.match(result.failed[0].error, /500/);
+    assert.deepEqual(result.account?.materials.map(m => m.count), [250]);
+
+    const stored = await storage.getApiKeyById(apiKey.id);
+    assert.equal(stored?.lastSyncStatus, "partial");
+    assert.match(stored?.lastSyncError ?? "", /^wallet: /);
+  });
+
+  it("reads elite specializations from build tabs under the builds step", async () => {
+    routes["/v2/characters"] = () => json([BUILD_CHARACTER]);
+    routes["/v2/specializations"] = () => json(SPECIALIZATIONS);
+
+    const result = await sync.syncAccount(apiKey);
+
+    assert.equal(result.status, "ok");
+    assert.deepEqual(result.account?.characters[0].eliteSpecialization, { id: 62, name: "Firebrand", icon: "firebrand.png" });
+  });
+
+  it("skips elite specializations without the builds permission", async () => {
+    routes = defaultRoutes(ALL_PERMISSIONS.filter(p => p !== "builds"));
+    routes["/v2/characters"] = () => json([BUILD_CHARACTER]);
+    routes["/v2/specializations"] = () => assert.fail("unexpected specializations request");
+
+    const result = await sync.syncAccount(apiKey);
+
+    assert.equal(result.status, "partial");
+    assert.deepEqual(result.skipped, [{ step: "builds", reason: 'API key is missing the "builds" permission' }]);
+    assert.equal(result.account?.characters[0].eliteSpecialization, null);
+  });
+
+  it("keeps the characters when their elite specializations fail", async () => {
+    routes["/v2/characters"] = () => json([BUILD_CHARACTER]);
+    routes["/v2/specializations"] = () => json({ text: "internal error" }, 500);
+
+    const result = await sync.syncAccount(apiKey);
+
+    assert.deepEqual(result.failed.map(f => f.step), ["builds"]);
+    assert.deepEqual(result.account?.characters.map(c => [c.name, c.eliteSpecialization]), [["Alpha", null]]);
+  });
+
+  it("keeps the previous achievement points when progression fails", async () => {
+    await sync.syncAccount(apiKey);
+    routes["/v2/account/achievements"] = () => json({ text: "internal error" }, 500);
+
+    const result = await sync.syncAccount(apiKey);
+
+    assert.deepEqual(result.failed.map(f => f.step), ["progression"]);
+    assert.equal(result.account?.achievementPoints, 540);
+    // Not synced this time, so the snapshot has no AP to diff against
+    assert.equal((await storage.getLatestSnapshot("account-1"))?.achievementPoints, null);
+  });
+
+  it("marks the key invalid when the API rejects it", async () => {
+    await storage.updateApiKey(apiKey.id, { isValid: true });
+    routes["/v2/tokeninfo"] = () => json({ text: "Invalid access token" }, 401);
+
+    await assert.rejects(sync.syncAccount(apiKey), /Invalid access token/);
+
+    const stored = await storage.getApiKeyById(apiKey.id);
+    assert.equal(stored?.isValid, false);
+    assert.equal(stored?.lastSyncStatus, "failed");
+  });
+
+  it("keeps the key valid when the API is unavailable", async () => {
+    await storage.updateApiKey(apiKey.id, { isValid: true });
+    routes["/v2/account"] = () => json({ text: "upstream error" }, 503);
+
+    await assert.rejects(sync.syncAccount(apiKey));
+
+    const stored = await storage.getApiKeyById(apiKey.id);
+    assert.equal(stored?.isValid, true);
+    assert.equal(stored?.lastSyncStatus, "failed");
+    assert.deepEqual((await storage.getValidApiKeys()).map(k => k.id), [apiKey.id]);
+  });
+
+  it("reports failed when every attempted step fails", async () => {
+    routes = defaultRoutes(["account", "wallet"]);
+    routes["/v2/account/wallet"] = () => json({ text: "internal error" }, 500);
+
+    const result = await sync.syncAccount(apiKey);
+
+    assert.equal(result.status, "failed");
+    assert.equal((await storage.getApiKeyById(apiKey.id))?.lastSyncStatus, "failed");
+  });
+});
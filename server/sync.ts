@@ -0,0 +1,350 @@
+import { storage, type IStorage } from "./storage";
+import {
+  gw2Client,
+  Gw2ApiError,
+  type Gw2Client,
+  type GW2Account,
+  type GW2Bag,
+  type GW2Character,
+  type GW2TokenInfo,
+  type GW2Transaction,
+} from "./gw2";
+import { ActivityGenerator } from "./activity";
+import { itemCatalog, type ItemCatalog } from "./catalog";
+import { achievementDefinitions, type AchievementDefinitionCache } from "./achievements";
+import { calculateAchievementPoints } from "./points";
+import { log } from "./logger";
+import type { ApiKey, AccountWithDetails, Character, StoredBag, SyncStatus, TradingPostTransaction } from "./schema";
+
+type EliteSpecialization = NonNullable<Character["eliteSpecialization"]>;
+
+// Upstream answers meaning the key itself was revoked or is malformed
+const INVALID_KEY_STATUSES = [401, 403];
+
+// Every step runSync performs. Unlocks and guilds have no step yet, so
+// they are left out rather than listed and never checked.
+export type SyncStep =
+  | "wallet"
+  | "inventories"
+  | "characters"
+  | "builds"
+  | "tradingpost"
+  | "progression";
+
+// The API key scope each sync step needs. Steps are named after their scope.
+export const SYNC_STEP_PERMISSIONS: Record<SyncStep, string> = {
+  wallet: "wallet",
+  inventories: "inventories",
+  characters: "characters",
+  builds: "builds",
+  tradingpost: "tradingpost",
+  progression: "progression",
+};
+
+export interface SkippedStep {
+  step: SyncStep;
+  reason: string;
+}
+
+export interface FailedStep {
+  step: SyncStep;
+  error: string;
+}
+
+export interface SyncResult {
+  account: AccountWithDetails | undefined;
+  status: SyncStatus;
+  skipped: SkippedStep[];
+  failed: FailedStep[];
+}
+
+interface StepOutcome {
+  skipped: SkippedStep[];
+  failed: FailedStep[];
+  succeeded: SyncStep[];
+}
+
+// "failed" only when nothing that was attempted went through
+function syncStatus({ skipped, failed, succeeded }: StepOutcome): SyncStatus {
+  if (failed.length > 0 && succeeded.length === 0) return "failed";
+  return failed.length > 0 || skipped.length > 0 ? "partial" : "ok";
+}
+
+// Runs the complete account sync pipeline for an API key. Shared by
+// sign-in, refresh and anything else that needs fresh account data.
+export class SyncService {
+  private activityGenerator: ActivityGenerator;
+
+  constructor(
+    private storage: IStorage,
+    private client: Gw2Client,
+    catalog: ItemCatalog,
+    private achievementDefinitions: AchievementDefinitionCache,
+  ) {
+    this.activityGenerator = new ActivityGenerator(client, catalog, achievementDefinitions);
+  }
+
+  // Records the outcome on the API key so the account payload can show it
+  async syncAccount(apiKey: ApiKey): Promise<SyncResult> {
+    let outcome: StepOutcome;
+    try {
+      outcome = await this.runSync(apiKey);
+    } catch (error) {
+      await this.storage.updateApiKey(apiKey.id, {
+        lastSyncedAt: new Date(),
+        lastSyncStatus: "failed",
+        lastSyncError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    const status = syncStatus(outcome);
+    await this.storage.updateApiKey(apiKey.id, {
+      lastSyncedAt: new Date(),
+      lastSyncStatus: status,
+      lastSyncError: outcome.failed.map(f => `${f.step}: ${f.error}`).join("; ") || null,
+    });
+
+    return {
+      account: await this.storage.getAccountWithDetails(apiKey.id),
+      status,
+      skipped: outcome.skipped,
+      failed: outcome.failed,
+    };
+  }
+
+  // Steps missing their permission are skipped; a step that throws is recorded
+  // as failed and the remaining steps still run
+  private async runSync(apiKey: ApiKey): Promise<StepOutcome> {
+    const key = apiKey.key;
+
+    let tokenInfo: GW2TokenInfo;
+    let accountData: GW2Account;
+    try {
+      tokenInfo = await this.client.tokenInfo(key);
+      accountData = await this.client.account(key);
+    } catch (error) {
+      // Only a rejected key is invalid; outages and rate limits leave it scheduled
+      if (error instanceof Gw2ApiError && INVALID_KEY_STATUSES.includes(error.status)) {
+        await this.storage.updateApiKey(apiKey.id, {
+          isValid: false,
+          lastValidated: new Date(),
+        });
+      }
+      throw error;
+    }
+
+    // Update API key validation status
+    await this.storage.updateApiKey(apiKey.id, {
+      isValid: true,
+      keyName: tokenInfo.name,
+      accountName: accountData.name,
+      lastValidated: new Date(),
+      permissions: tokenInfo.permissions,
+    });
+
+    const outcome: StepOutcome = { skipped: [], failed: [], succeeded: [] };
+    const runStep = async (step: SyncStep, fn: () => Promise<void>) => {
+      const permission = SYNC_STEP_PERMISSIONS[step];
+      if (!tokenInfo.permissions.includes(permission)) {
+        const reason = `API key is missing the "${permission}" permission`;
+        log(`Skipping ${step} sync for ${accountData.name}: ${reason}`, "sync");
+        outcome.skipped.push({ step, reason });
+        return;
+      }
+
+      try {
+        await fn();
+        outcome.succeeded.push(step);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`${step} sync failed for ${accountData.name}: ${message}`, "sync");
+        outcome.failed.push({ step, error: message });
+      }
+    };
+
+    // /v2/account has no AP total; without a progression sync the stored one is kept
+    let achievementPoints: number | null = null;
+    let completedAchievements: number[] | null = null;
+    await runStep("progression", async () => {
+      const accountAchievements = await this.client.accountAchievements(key);
+      completedAchievements = accountAchievements.filter(a => a.done).map(a => a.id);
+      const definitions = await this.achievementDefinitions.get(accountAchievements.map(a => a.id));
+      achievementPoints = calculateAchievementPoints(accountAchievements, definitions, accountData).total;
+    });
+
+    // Create or update account with calculated achievement points
+    const account = await this.storage.createOrUpdateAccount({
+      ...accountData,
+      achievement_points: achievementPoints,
+    }, apiKey.id);
+
+    await runStep("characters", async () => {
+      const charactersData = await this.client.characters(key);
+      // Elite specs are read from build tabs, which the API only returns with the builds scope
+      let eliteSpecs = new Map<string, EliteSpecialization>();
+      await runStep("builds", async () => {
+        eliteSpecs = await this.eliteSpecializations(charactersData);
+      });
+      await this.saveCharacters(charactersData, eliteSpecs, account.id);
+    });
+    await runStep("wallet", () => this.syncWallet(key, account.id));
+    await runStep("inventories", async () => {
+      await this.syncBank(key, account.id);
+      await this.syncMaterials(key, account.id);
+    });
+    await runStep("tradingpost", () => this.syncTradingPost(key, account.id));
+
+    const details = await this.storage.getAccountWithDetails(apiKey.id);
+    if (details) {
+      await this.recordSnapshot(details, completedAchievements, outcome.succeeded);
+    }
+
+    return outcome;
+  }
+
+  // Saves this sync's snapshot and logs activities for whatever changed since the last one.
+  // Sections whose step did not succeed this time are stored as null, not as empty.
+  private async recordSnapshot(details: AccountWithDetails, completedAchievements: number[] | null, synced: SyncStep[]) {
+    const ifSynced = <T>(step: SyncStep, section: () => T) => (synced.includes(step) ? section() : null);
+    const previous = await this.storage.getLatestSnapshot(details.id);
+    const current = await this.storage.saveSnapshot({
+      achievementPoints: ifSynced("progression", () => details.achievementPoints),
+      wvwRank: details.wvwRank,
+      fractalLevel: details.fractalLevel,
+      wallet: ifSynced("wallet", () => details.wallet.map(w => ({ currencyId: w.currencyId, value: w.value }))),
+      materials: ifSynced("inventories", () => details.materials.map(m => ({ itemId: m.itemId, count: m.count }))),
+      bank: ifSynced("inventories", () => details.bankItems.map(b => ({ itemId: b.itemId ?? 0, count: b.count ?? 1, slot: b.slot ?? 0 }))),
+      characters: ifSynced("characters", () => details.characters.map(c => ({ name: c.name, level: c.level ?? 0 }))),
+      completedAchievements,
+    }, details.id);
+
+    // The first sync has nothing to compare against
+    if (!previous) return;
+
+    try {
+      const activities = await this.activityGenerator.generate(previous, current);
+      for (const activity of activities) {
+        await this.storage.saveActivity({ ...activity, accountId: details.id }, details.id);
+      }
+    } catch (error) {
+      console.log("Activity generation failed:", error);
+    }
+  }
+
+  private async saveCharacters(charactersData: GW2Character[], eliteSpecs: Map<string, EliteSpecialization>, accountId: string) {
+    const characters = charactersData.map(char => ({
+      id: Math.random().toString(36),
+      name: char.name,
+      race: char.race,
+      gender: char.gender,
+      profession: char.profession,
+      level: char.level,
+      created: new Date(char.created),
+      age: char.age,
+      deaths: char.deaths,
+      eliteSpecialization: eliteSpecs.get(char.name) ?? null,
+      bags: char.bags ? char.bags.map(toStoredBag) : null,
+      accountId,
+    }));
+    await this.storage.saveCharacters(characters, accountId);
+  }
+
+  // The elite line of each character's active build tab, keyed by character name
+  private async eliteSpecializations(charactersData: GW2Character[]) {
+    const result = new Map<string, EliteSpecialization>();
+    const activeLines = new Map(charactersData.map(char => {
+      const tab = char.build_tabs?.find(t => t.is_active);
+      return [char.name, (tab?.build.specializations ?? []).flatMap(line => line.id ?? [])];
+    }));
+
+    const specIds = Array.from(activeLines.values()).flat();
+    if (specIds.length === 0) return result;
+
+    const elites = (await this.client.specializations(specIds)).filter(spec => spec.elite);
+    activeLines.forEach((ids, name) => {
+      const elite = elites.find(spec => ids.includes(spec.id));
+      if (elite) result.set(name, { id: elite.id, name: elite.name, icon: elite.icon });
+    });
+    return result;
+  }
+
+  private async syncWallet(key: string, accountId: string) {
+    const walletData = await this.client.wallet(key);
+    const wallet = walletData.map(item => ({
+      id: Math.random().toString(36),
+      currencyId: item.id,
+      value: item.value,
+      accountId,
+    }));
+    await this.storage.saveWallet(wallet, accountId);
+  }
+
+  private async syncBank(key: string, accountId: string) {
+    const bankData = await this.client.bank(key);
+    const bankItems = bankData
+      .map((item, index) => item ? ({
+        id: Math.random().toString(36),
+        itemId: item.id,
+        count: item.count || 1,
+        slot: index,
+        binding: item.binding ?? null,
+        accountId,
+      }) : null)
+      .filter((item): item is NonNullable<typeof item> => item !== null);
+    await this.storage.saveBankItems(bankItems, accountId, bankData.length);
+  }
+
+  private async syncMaterials(key: string, accountId: string) {
+    const materialsData = await this.client.materials(key);
+    const materials = materialsData.map(item => ({
+      id: Math.random().toString(36),
+      itemId: item.id,
+      category: item.category,
+      count: item.count,
+      accountId,
+    }));
+    await this.storage.saveMaterials(materials, accountId);
+  }
+
+  private async syncTradingPost(key: string, accountId: string) {
+    const [delivery, currentBuys, currentSells, historyBuys, historySells] = await Promise.all([
+      this.client.delivery(key),
+      this.client.transactions(key, "current", "buys"),
+      this.client.transactions(key, "current", "sells"),
+      this.client.transactions(key, "history", "buys"),
+      this.client.transactions(key, "history", "sells"),
+    ]);
+    await this.storage.saveTradingPost({
+      deliveryCoins: delivery.coins,
+      deliveryItems: delivery.items.map(item => ({ itemId: item.id, count: item.count })),
+      currentBuys: currentBuys.map(toTransaction),
+      currentSells: currentSells.map(toTransaction),
+      historyBuys: historyBuys.map(toTransaction),
+      historySells: historySells.map(toTransaction),
+    }, accountId);
+  }
+}
+
+// Keeps only what holdings need from each stack
+function toStoredBag(bag: GW2Bag | null): StoredBag | null {
+  if (!bag) return null;
+  return {
+    id: bag.id,
+    size: bag.size,
+    inventory: bag.inventory.map(stack => stack && { id: stack.id, count: stack.count, binding: stack.binding }),
+  };
+}
+
+function toTransaction(transaction: GW2Transaction): TradingPostTransaction {
+  return {
+    id: transaction.id,
+    itemId: transaction.item_id,
+    price: transaction.price,
+    quantity: transaction.quantity,
+    created: transaction.created,
+    purchased: transaction.purchased,
+  };
+}
+
+export const syncService = new SyncService(storage, gw2Client, itemCatalog, achievementDefinitions);
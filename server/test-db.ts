@@ -0,0 +1,66 @@
+import { randomUUID } from "crypto";
+import { SQL, is } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { PgDialect, PgTable, getTableConfig } from "drizzle-orm/pg-core";
+import { DataType, newDb } from "pg-mem";
+import * as schema from "./schema";
+import type { Database } from "./db";
+
+const dialect = new PgDialect();
+
+// CREATE TABLE statements for every table in the schema. drizzle-kit's push
+// needs a live server, so tests build the DDL from the table definitions.
+function createTableStatements(): string[] {
+  return Object.values(schema as Record<string, unknown>)
+    .filter((value): value is PgTable => is(value, PgTable))
+    .map(table => {
+      const { name, columns, primaryKeys } = getTableConfig(table);
+      const definitions = columns.map(column => {
+        let definition = `"${column.name}" ${column.getSQLType()}`;
+        if (column.primary) definition += " PRIMARY KEY";
+        if (column.notNull && !column.primary) definition += " NOT NULL";
+        if (column.isUnique) definition += " UNIQUE";
+        if (column.default !== undefined) {
+          const value = is(column.default, SQL)
+            ? dialect.sqlToQuery(column.default).sql
+            : typeof column.default === "string" ? `'${column.default}'` : String(column.default);
+          definition += ` DEFAULT ${value}`;
+        }
+        return definition;
+      });
+      primaryKeys.forEach(key => {
+        definitions.push(`PRIMARY KEY (${key.columns.map(column => `"${column.name}"`).join(", ")})`);
+      });
+      return `CREATE TABLE "${name}" (${definitions.join(", ")})`;
+    });
+}
+
+// pg hands timestamps over as text, which is what drizzle's column mappers expect
+function toDriverValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString().replace("T", " ").replace("Z", "") : value;
+}
+
+// A fresh in-memory Postgres with the app schema, for running DbStorage in tests
+export function createTestDatabase(): Database {
+  const mem = newDb();
+  mem.public.registerFunction({ name: "gen_random_uuid", returns: DataType.text, implementation: randomUUID, impure: true });
+  createTableStatements().forEach(statement => mem.public.none(statement));
+
+  // pg-mem supports neither the per-query type parsers nor the array row mode
+  // drizzle asks for, so strip both and shape the result the way pg would
+  const { Pool } = mem.adapters.createPg();
+  const pool = new Pool();
+  const query = pool.query.bind(pool);
+  pool.query = async (config: any, values?: any) => {
+    if (typeof config !== "object") return query(config, values);
+    const { types: _types, rowMode, ...rest } = config;
+    const result = await query(rest, values);
+    // pg-mem leaves fields empty, but keeps the row keys in select order
+    const rows = result.rows.map((row: Record<string, unknown>) => {
+      const entries = Object.entries(row).map(([name, value]) => [name, toDriverValue(value)] as const);
+      return rowMode === "array" ? entries.map(([, value]) => value) : Object.fromEntries(entries);
+    });
+    return { ...result, rows };
+  };
+  return drizzle({ client: pool, schema }) as unknown as Database;
+}
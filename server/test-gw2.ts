@@ -0,0 +1,49 @@
+import { Gw2Client, type Gw2ClientOptions } from "./gw2";
+
+// Stand-ins for the GW2 API shared by the server tests
+
+const BASE_URL = "https://gw2.test/v2";
+
+export type Handler = (url: URL) => Response | Promise<Response>;
+
+export interface RecordedRequest {
+  url: URL;
+  headers: Record<string, string>;
+}
+
+// A JSON response; a number is shorthand for the status
+export function json(body: unknown, init: ResponseInit | number = {}) {
+  const { headers, ...rest } = typeof init === "number" ? { status: init } : init;
+  return new Response(JSON.stringify(body), { ...rest, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+// The ids of a bulk request such as /v2/items?ids=1,2,3
+export const requestedIds = (url: URL) => (url.searchParams.get("ids") ?? "").split(",").map(Number);
+
+// A client whose requests go to handler instead of the network; every request is recorded
+export function standIn(handler: Handler, options: Gw2ClientOptions = {}) {
+  const requests: RecordedRequest[] = [];
+  const fetchStub = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+    requests.push({ url, headers: (init?.headers ?? {}) as Record<string, string> });
+    return handler(url);
+  };
+  const client = new Gw2Client({ baseUrl: BASE_URL, fetch: fetchStub as typeof fetch, retryBaseDelayMs: 1, ...options });
+  return { client, requests };
+}
+
+// Answers from a table keyed by path and 404s anything else. The table is read on every
+// request, so a test can replace or patch it after the client was built.
+export function byPath(routes: () => Record<string, () => Response>): Handler {
+  return url => routes()[url.pathname]?.() ?? json({ text: "no such endpoint" }, 404);
+}
+
+// Answers bulk requests the way the API does: ids up to maxKnownId are returned,
+// the rest are dropped, and a request with no known id at all is a 404
+export function knownIdsUpTo(maxKnownId: number, entry: (id: number) => object): Handler {
+  return url => {
+    const known = requestedIds(url).filter(id => id <= maxKnownId);
+    if (known.length === 0) return json({ text: "all ids provided are invalid" }, 404);
+    return json(known.map(entry), 206);
+  };
+}
@@ -0,0 +1,43 @@
+// Splits a copper amount into the gold/silver/copper parts the game displays
+export function splitCoins(copper: number) {
+  const abs = Math.abs(copper);
+  return {
+    gold: Math.floor(abs / 10000),
+    silver: Math.floor((abs % 10000) / 100),
+    copper: abs % 100,
+  };
+}
+
+export interface CoinFormatOptions {
+  // Prefix positive amounts with "+" as well as negative ones with "-"
+  signed?: boolean;
+  // Only the largest non-zero denomination, e.g. "12g" for 12g 99s 99c
+  compact?: boolean;
+}
+
+export type CoinPart = { unit: "gold" | "silver" | "copper"; amount: number };
+
+// The denominations to display: zero units are dropped, but 0 copper is shown for an empty amount
+export function coinParts(copper: number, { compact }: CoinFormatOptions = {}): CoinPart[] {
+  const { gold, silver, copper: rest } = splitCoins(copper);
+  const parts = ([
+    { unit: "gold", amount: gold },
+    { unit: "silver", amount: silver },
+    { unit: "copper", amount: rest },
+  ] as CoinPart[]).filter(part => part.amount > 0);
+
+  if (parts.length === 0) return [{ unit: "copper", amount: 0 }];
+  return compact ? parts.slice(0, 1) : parts;
+}
+
+export function coinSign(copper: number, { signed }: CoinFormatOptions = {}) {
+  if (copper < 0) return "-";
+  return signed && copper > 0 ? "+" : "";
+}
+
+const UNIT_SUFFIX = { gold: "g", silver: "s", copper: "c" };
+
+export function formatCoins(copper: number, options: CoinFormatOptions = {}): string {
+  const parts = coinParts(copper, options).map(part => `${part.amount.toLocaleString()}${UNIT_SUFFIX[part.unit]}`);
+  return `${coinSign(copper, options)}${parts.join(" ")}`;
+}